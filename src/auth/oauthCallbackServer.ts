@@ -1,4 +1,7 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
 import http from "node:http";
+import https from "node:https";
 import { EventEmitter } from "node:events";
 import { logger } from "../utils/logger.js";
 
@@ -7,26 +10,103 @@ export interface AuthCallbackEvent {
   state: string;
 }
 
+export type AuthCallbackOutcome = "success" | "expired" | "unknown_state" | "exchange_failed";
+
+export type AuthCallbackHandler = (event: AuthCallbackEvent) => Promise<AuthCallbackOutcome>;
+
+// How long the browser waits on the token exchange before we give up and point at Telegram
+const CALLBACK_RESULT_TIMEOUT_MS = 30000;
+
+const OUTCOME_PAGES: Record<AuthCallbackOutcome | "pending", { title: string; heading: string; body: string }> = {
+  success: {
+    title: "Authentication",
+    heading: "Authentication Successful!",
+    body: "You can close this tab and return to Telegram.",
+  },
+  expired: {
+    title: "Link Expired",
+    heading: "This login link has expired",
+    body: "Return to Telegram and use /login to get a new link.",
+  },
+  unknown_state: {
+    title: "Unknown Login",
+    heading: "We don't recognise this login",
+    body: "The link may have already been used or replaced by a newer one. Return to Telegram and use /login to try again.",
+  },
+  exchange_failed: {
+    title: "Authentication Failed",
+    heading: "Authentication Failed",
+    body: "Swiggy accepted your login, but we couldn't complete the connection. Return to Telegram and use /login to try again.",
+  },
+  pending: {
+    title: "Authentication",
+    heading: "Still finishing up...",
+    body: "This is taking longer than usual. Return to Telegram — you'll get a message there once it's done.",
+  },
+};
+
+// Telegram updates are small; anything larger is not from Telegram
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+export interface CallbackServerOptions {
+  /** Interface to bind; all interfaces when omitted */
+  host?: string;
+  /** Serve HTTPS directly using this PEM certificate + key */
+  tls?: {
+    certPath: string;
+    keyPath: string;
+  };
+  /** When set, accept Telegram webhook updates at /telegram/<secret> */
+  telegramWebhookSecret?: string;
+}
+
 export class OAuthCallbackServer extends EventEmitter {
-  private server: http.Server;
+  private server: http.Server | https.Server;
   private port: number;
+  private host?: string;
+  private scheme: "http" | "https";
+  private telegramWebhookSecret?: string;
+  private callbackHandler?: AuthCallbackHandler;
 
-  constructor(port: number) {
+  constructor(port: number, options: CallbackServerOptions = {}) {
     super();
     this.port = port;
-    this.server = http.createServer(this.handleRequest.bind(this));
+    this.host = options.host;
+    this.telegramWebhookSecret = options.telegramWebhookSecret;
+
+    if (options.tls) {
+      this.scheme = "https";
+      this.server = https.createServer(
+        {
+          cert: fs.readFileSync(options.tls.certPath),
+          key: fs.readFileSync(options.tls.keyPath),
+        },
+        this.handleRequest.bind(this),
+      );
+    } else {
+      this.scheme = "http";
+      this.server = http.createServer(this.handleRequest.bind(this));
+    }
   }
 
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server.on("error", reject);
-      this.server.listen(this.port, () => {
-        logger.info(`OAuth callback server listening on port ${this.port}`);
+      this.server.listen(this.port, this.host, () => {
+        logger.info(`OAuth callback server listening on ${this.scheme}://${this.host ?? "0.0.0.0"}:${this.port}`);
         resolve();
       });
     });
   }
 
+  /**
+   * Set the handler that completes an OAuth callback. The browser response
+   * waits for its outcome so the page reflects what actually happened.
+   */
+  setCallbackHandler(handler: AuthCallbackHandler): void {
+    this.callbackHandler = handler;
+  }
+
   async stop(): Promise<void> {
     return new Promise((resolve) => {
       this.server.close(() => resolve());
@@ -43,7 +123,14 @@ export class OAuthCallbackServer extends EventEmitter {
     }
 
     if (url.pathname === "/callback") {
-      this.handleCallback(url, res);
+      this.handleCallback(url, res).catch((err) => {
+        logger.error("Error serving OAuth callback", { error: String(err) });
+      });
+      return;
+    }
+
+    if (this.telegramWebhookSecret && url.pathname === `/telegram/${this.telegramWebhookSecret}`) {
+      this.handleTelegramUpdate(req, res);
       return;
     }
 
@@ -51,7 +138,56 @@ export class OAuthCallbackServer extends EventEmitter {
     res.end("Not found");
   }
 
-  private handleCallback(url: URL, res: http.ServerResponse): void {
+  /**
+   * Accept a Telegram webhook POST. The secret token header must match the
+   * one registered with setWebHook; valid updates are emitted as
+   * "telegramUpdate" for the bot to process.
+   */
+  private handleTelegramUpdate(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== "POST") {
+      res.writeHead(405, { "Content-Type": "text/plain" });
+      res.end("Method not allowed");
+      return;
+    }
+
+    const header = req.headers["x-telegram-bot-api-secret-token"];
+    const expected = Buffer.from(this.telegramWebhookSecret!);
+    const provided = Buffer.from(typeof header === "string" ? header : "");
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      logger.warn("Rejected Telegram webhook request with bad secret token");
+      res.writeHead(401, { "Content-Type": "text/plain" });
+      res.end("Unauthorized");
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_WEBHOOK_BODY_BYTES) {
+        res.writeHead(413, { "Content-Type": "text/plain" });
+        res.end("Payload too large");
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (res.writableEnded) return;
+      try {
+        const update = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        this.emit("telegramUpdate", update);
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.end("OK");
+      } catch {
+        logger.warn("Received malformed Telegram webhook body");
+        res.writeHead(400, { "Content-Type": "text/plain" });
+        res.end("Bad request");
+      }
+    });
+  }
+
+  private async handleCallback(url: URL, res: http.ServerResponse): Promise<void> {
     const code = url.searchParams.get("code");
     const state = url.searchParams.get("state");
 
@@ -89,15 +225,31 @@ export class OAuthCallbackServer extends EventEmitter {
 
     logger.info("Received OAuth callback", { state: state.substring(0, 8) + "..." });
 
-    this.emit("authCallback", { code, state } as AuthCallbackEvent);
+    let outcome: AuthCallbackOutcome | "pending" = "exchange_failed";
+    if (this.callbackHandler) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<"pending">((resolve) => {
+        timer = setTimeout(() => resolve("pending"), CALLBACK_RESULT_TIMEOUT_MS);
+      });
+      try {
+        outcome = await Promise.race([this.callbackHandler({ code, state }), timeout]);
+      } catch (err) {
+        logger.error("OAuth callback handler failed", { error: String(err) });
+      } finally {
+        clearTimeout(timer);
+      }
+    } else {
+      logger.warn("OAuth callback received before a handler was registered");
+    }
 
-    res.writeHead(200, { "Content-Type": "text/html" });
+    const page = OUTCOME_PAGES[outcome];
+    res.writeHead(outcome === "success" || outcome === "pending" ? 200 : 400, { "Content-Type": "text/html" });
     res.end(`<!DOCTYPE html>
 <html>
-<head><title>Swiggy MCP Bot - Authentication</title></head>
+<head><title>Swiggy MCP Bot - ${page.title}</title></head>
 <body style="font-family: sans-serif; text-align: center; padding: 50px;">
-  <h1>Authentication Successful!</h1>
-  <p>You can close this tab and return to Telegram.</p>
+  <h1>${page.heading}</h1>
+  <p>${page.body}</p>
 </body>
 </html>`);
   }
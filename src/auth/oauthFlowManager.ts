@@ -0,0 +1,137 @@
+import type { SwiggyService } from "../types/mcp.types.js";
+import type { PendingOAuthFlow } from "../types/user.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import {
+  OAUTH_FLOW_TIMEOUT_MS,
+  OAUTH_FLOW_SWEEP_INTERVAL_MS,
+  OAUTH_EXPIRED_FLOW_GRACE_MS,
+  DEFAULT_PROFILE_NAME,
+} from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+export type FlowExpiredHandler = (flow: PendingOAuthFlow) => void;
+
+/**
+ * Owns the lifecycle of pending OAuth flows: at most one active flow per
+ * user + service, and flows that outlive their expiry are swept away with
+ * a notification so the user can retry. Swept states are remembered for a
+ * while, so a callback arriving late is told the link expired rather than
+ * that it's unknown.
+ */
+export class OAuthFlowManager {
+  private sessionStore: SessionStore;
+  private onFlowExpired: FlowExpiredHandler;
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  /** Swept state → when to forget it (ms epoch) */
+  private expiredStates: Map<string, number> = new Map();
+
+  constructor(sessionStore: SessionStore, onFlowExpired: FlowExpiredHandler) {
+    this.sessionStore = sessionStore;
+    this.onFlowExpired = onFlowExpired;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), OAUTH_FLOW_SWEEP_INTERVAL_MS);
+    this.sweep();
+  }
+
+  stop(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  /**
+   * Register a new flow for a user + service (on the active profile unless
+   * given), superseding any earlier flow for the same user, profile and
+   * service. Returns the state parameter identifying the flow.
+   */
+  begin(
+    userId: number,
+    chatId: number,
+    service: SwiggyService,
+    state: string = crypto.randomUUID(),
+    profile: string = this.sessionStore.getActiveProfileName(userId),
+  ): string {
+    for (const existing of this.sessionStore.getPendingFlows()) {
+      const existingProfile = existing.profile ?? DEFAULT_PROFILE_NAME;
+      if (existing.telegramUserId === userId && existing.service === service && existingProfile === profile) {
+        this.sessionStore.removePendingFlow(existing.state);
+        logger.info("Superseded pending OAuth flow", { userId, service, profile });
+      }
+    }
+
+    const now = Date.now();
+    this.sessionStore.registerPendingFlow(state, {
+      telegramUserId: userId,
+      chatId,
+      service,
+      profile,
+      codeVerifier: "", // Will be set by the OAuth provider
+      state,
+      createdAt: now,
+      expiresAt: now + OAUTH_FLOW_TIMEOUT_MS,
+    });
+    return state;
+  }
+
+  get(state: string): PendingOAuthFlow | undefined {
+    return this.sessionStore.getPendingFlow(state);
+  }
+
+  /**
+   * True if the flow for this state was swept as expired recently.
+   */
+  wasExpired(state: string): boolean {
+    return (this.expiredStates.get(state) ?? 0) > Date.now();
+  }
+
+  /**
+   * Remove a flow once its callback has been handled (successfully or not).
+   */
+  complete(state: string): void {
+    this.sessionStore.removePendingFlow(state);
+  }
+
+  /**
+   * Remove a flow without completing it, e.g. when starting it failed.
+   */
+  abandon(state: string): void {
+    const flow = this.sessionStore.getPendingFlow(state);
+    if (!flow) return;
+    this.sessionStore.removePendingFlow(state);
+    this.clearSessionPending(flow);
+  }
+
+  /**
+   * Drop every flow past its expiry and notify the user once per flow.
+   */
+  sweep(): void {
+    const now = Date.now();
+    for (const [state, forgetAt] of this.expiredStates) {
+      if (forgetAt <= now) this.expiredStates.delete(state);
+    }
+
+    for (const flow of this.sessionStore.getPendingFlows()) {
+      if (flow.expiresAt > now) continue;
+
+      this.sessionStore.removePendingFlow(flow.state);
+      this.expiredStates.set(flow.state, now + OAUTH_EXPIRED_FLOW_GRACE_MS);
+      this.clearSessionPending(flow);
+      logger.info("Expired pending OAuth flow", { userId: flow.telegramUserId, service: flow.service });
+
+      try {
+        this.onFlowExpired(flow);
+      } catch (err) {
+        logger.error("Flow expiry handler failed", { userId: flow.telegramUserId, error: String(err) });
+      }
+    }
+  }
+
+  private clearSessionPending(flow: PendingOAuthFlow): void {
+    const pending = this.sessionStore.getPendingAuthUrl(flow.telegramUserId);
+    if (pending?.service === flow.service) {
+      this.sessionStore.clearPendingAuth(flow.telegramUserId);
+    }
+  }
+}
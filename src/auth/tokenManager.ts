@@ -1,10 +1,31 @@
 import type { SwiggyService } from "../types/mcp.types.js";
 import type { SessionStore } from "../memory/sessionStore.js";
-import type { OAuthCallbackServer, AuthCallbackEvent } from "./oauthCallbackServer.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { OAuthFlowManager } from "./oauthFlowManager.js";
+import type { OAuthCallbackServer, AuthCallbackEvent, AuthCallbackOutcome } from "./oauthCallbackServer.js";
 import { SwiggyOAuthProvider } from "../mcp/oauthProvider.js";
-import { auth } from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  auth,
+  refreshAuthorization,
+  discoverOAuthProtectedResourceMetadata,
+  discoverAuthorizationServerMetadata,
+  selectResourceURL,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  OAuthError,
+  InvalidClientError,
+  UnauthorizedClientError,
+  ServerError,
+  TemporarilyUnavailableError,
+  TooManyRequestsError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { TOKEN_REFRESH_AHEAD_MS, TOKEN_REFRESH_CHECK_INTERVAL_MS } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
 
+// OAuth errors that can clear up on their own; any other OAuth error is final
+const TRANSIENT_OAUTH_ERRORS = [ServerError, TemporarilyUnavailableError, TooManyRequestsError];
+
 export interface AuthCompleteEvent {
   userId: number;
   chatId: number;
@@ -15,48 +36,199 @@ export interface AuthCompleteEvent {
 
 export type AuthCompleteHandler = (event: AuthCompleteEvent) => void;
 
+export interface ReauthRequiredEvent {
+  userId: number;
+  chatId: number;
+  service: SwiggyService;
+  authUrl: string;
+}
+
+export type ReauthRequiredHandler = (event: ReauthRequiredEvent) => void;
+
 export class TokenManager {
   private sessionStore: SessionStore;
   private callbackServer: OAuthCallbackServer;
+  private mcpClientManager: McpClientManager;
+  private flowManager: OAuthFlowManager;
   private onAuthComplete: AuthCompleteHandler;
+  private onReauthRequired: ReauthRequiredHandler;
   private endpoints: Record<SwiggyService, string>;
-  private callbackPort: number;
-  private callbackHost: string;
+  private callbackUrl: string;
+  private refreshTimer?: ReturnType<typeof setInterval>;
+  private refreshing: Set<string> = new Set();
 
   constructor(
     sessionStore: SessionStore,
     callbackServer: OAuthCallbackServer,
+    mcpClientManager: McpClientManager,
+    flowManager: OAuthFlowManager,
     onAuthComplete: AuthCompleteHandler,
+    onReauthRequired: ReauthRequiredHandler,
     endpoints: Record<SwiggyService, string>,
-    callbackPort: number,
-    callbackHost: string = "localhost",
+    callbackUrl: string,
   ) {
     this.sessionStore = sessionStore;
     this.callbackServer = callbackServer;
+    this.mcpClientManager = mcpClientManager;
+    this.flowManager = flowManager;
     this.onAuthComplete = onAuthComplete;
+    this.onReauthRequired = onReauthRequired;
     this.endpoints = endpoints;
-    this.callbackPort = callbackPort;
-    this.callbackHost = callbackHost;
+    this.callbackUrl = callbackUrl;
 
-    this.callbackServer.on("authCallback", (event: AuthCallbackEvent) => {
-      this.handleCallback(event).catch((err) => {
-        logger.error("Error handling auth callback", { error: String(err) });
-      });
-    });
+    this.callbackServer.setCallbackHandler((event) => this.handleCallback(event));
+  }
+
+  /**
+   * Start the background refresh scheduler. Runs one sweep immediately so
+   * tokens that expired while the bot was down are handled on startup.
+   */
+  start(): void {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setInterval(() => this.refreshExpiring(), TOKEN_REFRESH_CHECK_INTERVAL_MS);
+    this.refreshExpiring();
   }
 
-  private async handleCallback(event: AuthCallbackEvent): Promise<void> {
+  stop(): void {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  /**
+   * Refresh every token set that is about to expire. Tokens without a
+   * refresh_token are left alone until they have actually expired.
+   */
+  private refreshExpiring(): void {
+    const now = Date.now();
+    for (const entry of this.sessionStore.getExpiringTokens(now + TOKEN_REFRESH_AHEAD_MS)) {
+      if (!entry.canRefresh && entry.expiresAt > now) continue;
+
+      const key = `${entry.userId}:${entry.profile}:${entry.service}`;
+      if (this.refreshing.has(key)) continue;
+      this.refreshing.add(key);
+
+      this.refreshTokens(entry.userId, entry.chatId, entry.service, entry.profile)
+        .catch((err) => {
+          logger.error("Token refresh failed", { userId: entry.userId, service: entry.service, error: String(err) });
+        })
+        .finally(() => this.refreshing.delete(key));
+    }
+  }
+
+  /**
+   * Refresh one user's tokens with a direct refresh_token grant. Network,
+   * 5xx and rate-limit errors keep the tokens for the next sweep; any other
+   * OAuth error (invalid_grant, invalid_client, …) drops them, and a
+   * rejected client registration with them. Once dropped, auth() starts a
+   * fresh authorization request; that URL is registered as a pending flow
+   * and handed to onReauthRequired so the user can log in again with one tap.
+   */
+  private async refreshTokens(
+    userId: number,
+    chatId: number,
+    service: SwiggyService,
+    profile: string,
+  ): Promise<void> {
+    const state = crypto.randomUUID();
+    const oauthProvider = new SwiggyOAuthProvider(
+      userId,
+      service,
+      this.sessionStore,
+      this.callbackUrl,
+      state,
+      profile,
+    );
+    const serverUrl = this.endpoints[service];
+
+    const tokens = await oauthProvider.tokens();
+    const clientInformation = await oauthProvider.clientInformation();
+    if (tokens?.refresh_token && clientInformation) {
+      try {
+        const { authorizationServerUrl, metadata, resource } = await this.discoverAuthServer(serverUrl, oauthProvider);
+        const refreshed = await refreshAuthorization(authorizationServerUrl, {
+          metadata,
+          clientInformation,
+          refreshToken: tokens.refresh_token,
+          resource,
+        });
+        await oauthProvider.saveTokens(refreshed);
+        this.mcpClientManager.invalidateClient(userId, service, profile);
+        logger.info("OAuth tokens refreshed", { userId, service, profile });
+        return;
+      } catch (err) {
+        if (!(err instanceof OAuthError) || TRANSIENT_OAUTH_ERRORS.some((type) => err instanceof type)) {
+          logger.warn("Token refresh attempt failed, will retry", { userId, service, error: String(err) });
+          return;
+        }
+        logger.warn("Token refresh rejected", { userId, service, profile, error: String(err) });
+        if (err instanceof InvalidClientError || err instanceof UnauthorizedClientError) {
+          // Retrying with the same registration can never work; the re-login below registers a new one
+          await oauthProvider.invalidateCredentials("client");
+        }
+      }
+    }
+
+    this.sessionStore.invalidateTokens(userId, service, profile);
+    this.mcpClientManager.invalidateClient(userId, service, profile);
+
+    const result = await auth(oauthProvider, { serverUrl });
+    const pending = this.sessionStore.getPendingAuthUrl(userId);
+    if (result !== "REDIRECT" || !pending) {
+      logger.warn("Token refresh failed without a re-login URL", { userId, service });
+      return;
+    }
+
+    this.flowManager.begin(userId, chatId, service, state, profile);
+
+    logger.info("Token refresh failed, asking user to log in again", { userId, service });
+    this.onReauthRequired({ userId, chatId, service, authUrl: pending.url });
+  }
+
+  /**
+   * Find the authorization server the same way auth() does: protected
+   * resource metadata first, the MCP server's own origin as the fallback.
+   */
+  private async discoverAuthServer(serverUrl: string, provider: SwiggyOAuthProvider): Promise<{
+    authorizationServerUrl: string | URL;
+    metadata: Awaited<ReturnType<typeof discoverAuthorizationServerMetadata>>;
+    resource?: URL;
+  }> {
+    let resourceMetadata: OAuthProtectedResourceMetadata | undefined;
+    let authorizationServerUrl: string | URL | undefined;
+    try {
+      resourceMetadata = await discoverOAuthProtectedResourceMetadata(serverUrl);
+      authorizationServerUrl = resourceMetadata.authorization_servers?.[0];
+    } catch {
+      // No resource metadata — fall back to the legacy layout below
+    }
+    authorizationServerUrl ??= new URL("/", serverUrl);
+
+    const resource = await selectResourceURL(serverUrl, provider, resourceMetadata);
+    const metadata = await discoverAuthorizationServerMetadata(authorizationServerUrl);
+    return { authorizationServerUrl, metadata, resource };
+  }
+
+  /**
+   * Complete an OAuth callback and report the outcome back to the callback
+   * server (for the browser page) and to onAuthComplete (for Telegram).
+   */
+  private async handleCallback(event: AuthCallbackEvent): Promise<AuthCallbackOutcome> {
     const { code, state } = event;
-    const flow = this.sessionStore.getPendingFlow(state);
+    const flow = this.flowManager.get(state);
 
     if (!flow) {
+      // Swept already — the user was told in Telegram when it expired
+      if (this.flowManager.wasExpired(state)) {
+        logger.info("Received callback for expired flow", { state: state.substring(0, 8) });
+        return "expired";
+      }
       logger.warn("Received callback for unknown state", { state: state.substring(0, 8) });
-      return;
+      return "unknown_state";
     }
 
     // Check expiry
     if (Date.now() > flow.expiresAt) {
-      this.sessionStore.removePendingFlow(state);
+      this.flowManager.complete(state);
       this.onAuthComplete({
         userId: flow.telegramUserId,
         chatId: flow.chatId,
@@ -64,10 +236,10 @@ export class TokenManager {
         success: false,
         error: "Authentication flow expired. Please try /login again.",
       });
-      return;
+      return "expired";
     }
 
-    this.sessionStore.removePendingFlow(state);
+    this.flowManager.complete(state);
 
     // Exchange the authorization code for tokens using the MCP SDK's auth flow
     try {
@@ -75,8 +247,9 @@ export class TokenManager {
         flow.telegramUserId,
         flow.service,
         this.sessionStore,
-        this.callbackPort,
-        this.callbackHost,
+        this.callbackUrl,
+        undefined,
+        flow.profile,
       );
 
       const serverUrl = this.endpoints[flow.service];
@@ -97,6 +270,7 @@ export class TokenManager {
           service: flow.service,
           success: true,
         });
+        return "success";
       } else {
         logger.warn("OAuth token exchange returned unexpected result", {
           userId: flow.telegramUserId,
@@ -111,6 +285,7 @@ export class TokenManager {
           success: false,
           error: "Token exchange failed. Please try /login again.",
         });
+        return "exchange_failed";
       }
     } catch (err) {
       logger.error("OAuth token exchange failed", {
@@ -126,6 +301,7 @@ export class TokenManager {
         success: false,
         error: "Token exchange failed. Please try /login again.",
       });
+      return "exchange_failed";
     }
   }
 }
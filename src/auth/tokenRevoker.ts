@@ -0,0 +1,117 @@
+import {
+  discoverAuthorizationServerMetadata,
+  discoverOAuthProtectedResourceMetadata,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { SwiggyService } from "../types/mcp.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Revokes OAuth tokens at Swiggy's authorization server (RFC 7009), so
+ * logging out invalidates the refresh token server-side too.
+ */
+export class TokenRevoker {
+  private sessionStore: SessionStore;
+  private endpoints: Record<SwiggyService, string>;
+  private callbackUrl: string;
+  private revocationEndpoints: Map<SwiggyService, string | null> = new Map();
+
+  constructor(
+    sessionStore: SessionStore,
+    endpoints: Record<SwiggyService, string>,
+    callbackUrl: string,
+  ) {
+    this.sessionStore = sessionStore;
+    this.endpoints = endpoints;
+    this.callbackUrl = callbackUrl;
+  }
+
+  /**
+   * Revoke the stored refresh and access tokens for a user + service
+   * (active profile unless given). Returns true if the server accepted the
+   * revocation, false if there was nothing to revoke or the server doesn't
+   * advertise a revocation endpoint. Local tokens are left for the caller
+   * to clear.
+   */
+  async revoke(userId: number, service: SwiggyService, profile?: string): Promise<boolean> {
+    const tokens = this.sessionStore.getTokens(userId, service, profile);
+    const clientInfo = this.sessionStore.getClientInfo(service, this.callbackUrl);
+    if (!tokens || !clientInfo) return false;
+
+    const endpoint = await this.getRevocationEndpoint(service);
+    if (!endpoint) {
+      logger.info("Authorization server does not support token revocation", { service });
+      return false;
+    }
+
+    // Revoking the refresh token first; servers usually cascade to its access tokens
+    const targets: Array<[string, string]> = [];
+    if (tokens.refresh_token) targets.push([tokens.refresh_token, "refresh_token"]);
+    targets.push([tokens.access_token, "access_token"]);
+
+    let revoked = false;
+    for (const [token, hint] of targets) {
+      if (await this.revokeToken(endpoint, clientInfo, token, hint)) revoked = true;
+    }
+
+    logger.info("Token revocation finished", { userId, service, revoked });
+    return revoked;
+  }
+
+  private async revokeToken(
+    endpoint: string,
+    clientInfo: OAuthClientInformationFull,
+    token: string,
+    tokenTypeHint: string,
+  ): Promise<boolean> {
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    const body = new URLSearchParams({ token, token_type_hint: tokenTypeHint });
+
+    if (clientInfo.client_secret && clientInfo.token_endpoint_auth_method !== "client_secret_post") {
+      const credentials = Buffer.from(`${clientInfo.client_id}:${clientInfo.client_secret}`).toString("base64");
+      headers.Authorization = `Basic ${credentials}`;
+    } else {
+      body.set("client_id", clientInfo.client_id);
+      if (clientInfo.client_secret) body.set("client_secret", clientInfo.client_secret);
+    }
+
+    try {
+      const response = await fetch(endpoint, { method: "POST", headers, body });
+      // RFC 7009 §2.2: 200 even when the token was already invalid
+      if (response.ok) return true;
+      logger.warn("Token revocation rejected", { status: response.status, tokenTypeHint });
+      return false;
+    } catch (err) {
+      logger.warn("Token revocation request failed", { tokenTypeHint, error: String(err) });
+      return false;
+    }
+  }
+
+  private async getRevocationEndpoint(service: SwiggyService): Promise<string | null> {
+    if (this.revocationEndpoints.has(service)) return this.revocationEndpoints.get(service)!;
+
+    const serverUrl = this.endpoints[service];
+    let authorizationServerUrl: string | URL = new URL("/", serverUrl);
+    try {
+      const resourceMetadata = await discoverOAuthProtectedResourceMetadata(serverUrl);
+      if (resourceMetadata.authorization_servers?.length) {
+        authorizationServerUrl = resourceMetadata.authorization_servers[0];
+      }
+    } catch {
+      // Fall back to the MCP server origin, as the SDK's auth() does
+    }
+
+    try {
+      const metadata = await discoverAuthorizationServerMetadata(authorizationServerUrl);
+      const endpoint = metadata && "revocation_endpoint" in metadata
+        ? metadata.revocation_endpoint ?? null
+        : null;
+      this.revocationEndpoints.set(service, endpoint);
+      return endpoint;
+    } catch (err) {
+      logger.warn("Authorization server metadata discovery failed", { service, error: String(err) });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { SwiggyService, DiscoveredTool } from "../types/mcp.types.js";
+import type { SavedAddress, SharedLocation } from "../types/user.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import { buildAddressKeyboard } from "./inlineKeyboards.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { LOCATION_MATCH_RADIUS_M, MESSAGES, SERVICE_LABELS, VALID_SERVICES } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+// Tool name patterns, most specific first. Never match tools that change addresses.
+const ADDRESS_TOOL_PATTERNS = [
+  /^(get|list|fetch)_?\w*address/i,
+  /^(?!.*(^|_)(add|update|delete|remove|create|set|save)(_|$)).*address/i,
+  /^(get|list|fetch)_?\w*location/i,
+];
+
+const LAT_KEY = /^lat(itude)?$/i;
+const LNG_KEY = /^(lng|lon|long|longitude)$/i;
+
+/**
+ * Chooses the delivery address searches and orders run against.
+ *
+ *   ensureAddress() → after login, cache the account's default address
+ *   show()          → /address: list saved addresses as buttons
+ *   select()        → store the tapped address as the active one
+ *   useLocation()   → a shared Telegram location: the nearest saved address,
+ *                     or the raw coordinates where tools accept them
+ *
+ * The choice is kept per service on the active account profile. Callers
+ * are responsible for dropping anything built for the previous address.
+ */
+export class AddressPicker {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * /address [service] — one message per connected service (or just the one
+   * named) with its saved addresses as buttons.
+   */
+  async show(msg: TelegramBot.Message, serviceArg?: string): Promise<void> {
+    const userId = msg.from!.id;
+    const chatId = msg.chat.id;
+
+    let services = this.sessionStore.getAuthenticatedServices(userId);
+    if (serviceArg) {
+      const requested = serviceArg.toLowerCase() as SwiggyService;
+      if (!VALID_SERVICES.includes(requested)) {
+        await this.bot.sendMessage(chatId, "Usage: /address [food|instamart|dineout]");
+        return;
+      }
+      if (!services.includes(requested)) {
+        await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS[requested]), { parse_mode: "HTML" });
+        return;
+      }
+      services = [requested];
+    }
+    if (services.length === 0) {
+      await this.bot.sendMessage(chatId, "You're not connected to any Swiggy services.\nUse /login to connect first.");
+      return;
+    }
+
+    await this.bot.sendChatAction(chatId, "typing");
+
+    for (const service of services) {
+      try {
+        const client = await this.mcpClientManager.getClient(userId, service);
+        const addresses = await this.fetchAddresses(userId, service, client);
+        if (addresses === null) {
+          await this.bot.sendMessage(chatId, `${SERVICE_LABELS[service]} doesn't offer a saved-address tool for your account right now.`);
+          continue;
+        }
+
+        const location = this.sessionStore.getLocation(userId, service);
+        const activeId = location ? undefined : this.sessionStore.getAddressId(userId, service);
+        await this.bot.sendMessage(chatId, this.messageFormatter.formatAddressList(service, addresses, activeId, location), {
+          parse_mode: "HTML",
+          reply_markup: addresses.length > 0
+            ? { inline_keyboard: buildAddressKeyboard(this.callbacks.forUser(userId), service, addresses, activeId) }
+            : undefined,
+        });
+      } catch (err) {
+        await this.handleError(userId, chatId, service, err);
+      }
+    }
+  }
+
+  /**
+   * Make the tapped address the active one and redraw its list. Returns
+   * true when the address actually changed.
+   */
+  async select(userId: number, chatId: number, messageId: number, service: SwiggyService, address: SavedAddress): Promise<boolean> {
+    const changed = this.sessionStore.getAddressId(userId, service) !== address.id
+      || this.sessionStore.getLocation(userId, service) !== undefined;
+    if (changed) {
+      this.sessionStore.saveAddressId(userId, service, address.id, address.label);
+      this.sessionStore.clearLocation(userId, service);
+      logger.info("Delivery address selected", { userId, service, addressId: address.id });
+    }
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, service);
+      const addresses = (await this.fetchAddresses(userId, service, client)) ?? [address];
+      await this.bot.editMessageText(this.messageFormatter.formatAddressList(service, addresses, address.id), {
+        chat_id: chatId,
+        message_id: messageId,
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: buildAddressKeyboard(this.callbacks.forUser(userId), service, addresses, address.id) },
+      });
+    } catch (err) {
+      // The choice is saved either way; only the redraw failed
+      if (!String(err).includes("message is not modified")) {
+        logger.warn("Failed to redraw address list", { userId, service, error: String(err) });
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * A location shared in chat becomes the active delivery point for every
+   * connected service: the nearest saved address within
+   * LOCATION_MATCH_RADIUS_M, otherwise the coordinates themselves if the
+   * service has tools that take them. Replies with what was chosen and
+   * returns the services whose address changed.
+   */
+  async useLocation(userId: number, chatId: number, location: SharedLocation): Promise<SwiggyService[]> {
+    const services = this.sessionStore.getAuthenticatedServices(userId);
+    if (services.length === 0) {
+      await this.bot.sendMessage(chatId, "You're not connected to any Swiggy services.\nUse /login to connect first.");
+      return [];
+    }
+
+    await this.bot.sendChatAction(chatId, "typing");
+
+    const changed: SwiggyService[] = [];
+    const lines: string[] = [];
+    for (const service of services) {
+      const label = SERVICE_LABELS[service];
+      try {
+        const client = await this.mcpClientManager.getClient(userId, service);
+        const addresses = (await this.fetchAddresses(userId, service, client)) ?? [];
+        const nearest = this.nearestAddress(addresses, location);
+
+        if (nearest && nearest.distance <= LOCATION_MATCH_RADIUS_M) {
+          const { address, distance } = nearest;
+          if (this.sessionStore.getAddressId(userId, service) !== address.id || this.sessionStore.getLocation(userId, service)) {
+            this.sessionStore.saveAddressId(userId, service, address.id, address.label);
+            this.sessionStore.clearLocation(userId, service);
+            changed.push(service);
+          }
+          lines.push(`✅ ${label}: your saved address <b>${this.messageFormatter.escapeHtml(address.label)}</b> (${Math.round(distance)} m away)`);
+        } else if (this.toolDiscovery.getToolsForService(service, userId).some((tool) => this.coordinateKeys(tool))) {
+          this.sessionStore.saveLocation(userId, service, location);
+          changed.push(service);
+          lines.push(`✅ ${label}: the shared location (no saved address within ${LOCATION_MATCH_RADIUS_M} m)`);
+        } else {
+          lines.push(`⚠️ ${label}: no saved address near there. Add it in the Swiggy app, then share it again or use /address.`);
+        }
+      } catch (err) {
+        if (err instanceof AuthenticationRequiredError) {
+          this.mcpClientManager.invalidateClient(userId, service);
+          lines.push(`⚠️ ${label}: your login expired — use /login ${service} and share the location again.`);
+        } else {
+          logger.warn("Location match failed", { userId, service, error: String(err) });
+          lines.push(`⚠️ ${label}: I couldn't check your saved addresses right now.`);
+        }
+      }
+    }
+
+    logger.info("Location shared", { userId, changed });
+    await this.bot.sendMessage(chatId, `📍 <b>Delivering to ${this.messageFormatter.escapeHtml(location.label)}</b>\n\n${lines.join("\n")}`, {
+      parse_mode: "HTML",
+    });
+    return changed;
+  }
+
+  /**
+   * Coordinates of the shared location for a tool whose inputSchema takes
+   * latitude / longitude. Empty when there's no shared location or the
+   * tool doesn't take coordinates.
+   */
+  buildLocationArgs(userId: number, service: SwiggyService, tool: DiscoveredTool): Record<string, unknown> {
+    const location = this.sessionStore.getLocation(userId, service);
+    const keys = location ? this.coordinateKeys(tool) : null;
+    if (!location || !keys) return {};
+    return { [keys.lat]: location.lat, [keys.lng]: location.lng };
+  }
+
+  /**
+   * Cache the account's default address (or its first one) if none is
+   * selected yet. Returns the active address id, if any. With a shared
+   * location active, only a saved address within LOCATION_MATCH_RADIUS_M of
+   * it is used (the location stays what the user sees); otherwise nothing
+   * is picked and the user can choose one with /address.
+   */
+  async ensureAddress(userId: number, service: SwiggyService, client: Client): Promise<string | undefined> {
+    const existing = this.sessionStore.getAddressId(userId, service);
+    if (existing) return existing;
+
+    try {
+      const addresses = await this.fetchAddresses(userId, service, client);
+      const location = this.sessionStore.getLocation(userId, service);
+      let chosen: SavedAddress | undefined;
+      if (location) {
+        const nearest = addresses ? this.nearestAddress(addresses, location) : undefined;
+        chosen = nearest && nearest.distance <= LOCATION_MATCH_RADIUS_M ? nearest.address : undefined;
+      } else {
+        chosen = addresses?.find((address) => address.isDefault) ?? addresses?.[0];
+      }
+      if (!chosen) {
+        logger.debug("No saved address to default to", { userId, service, hasLocation: !!location });
+        return undefined;
+      }
+      this.sessionStore.saveAddressId(userId, service, chosen.id, location?.label ?? chosen.label);
+      logger.info("Auto-selected address", { userId, service, addressId: chosen.id, isDefault: chosen.isDefault });
+      return chosen.id;
+    } catch (err) {
+      if (err instanceof AuthenticationRequiredError) throw err;
+      logger.warn("Auto-fetch address failed", { userId, service, error: String(err) });
+      return undefined;
+    }
+  }
+
+  /**
+   * Saved addresses from the account's address tool, or null when the
+   * service has no such tool or its result can't be read.
+   */
+  private async fetchAddresses(userId: number, service: SwiggyService, client: Client): Promise<SavedAddress[] | null> {
+    const tool = await this.toolDiscovery.findToolForUser(userId, service, client, ADDRESS_TOOL_PATTERNS);
+    if (!tool) return null;
+
+    const result = await this.toolInvoker.invokeWithRetry(client, service, tool.tool.name, {});
+    if (result.isError) {
+      logger.warn("Address tool returned error", { userId, service, tool: tool.tool.name });
+      return null;
+    }
+    return this.resultFilter.parseAddresses(result);
+  }
+
+  private nearestAddress(addresses: SavedAddress[], location: SharedLocation): { address: SavedAddress; distance: number } | undefined {
+    let best: { address: SavedAddress; distance: number } | undefined;
+    for (const address of addresses) {
+      if (address.lat === undefined || address.lng === undefined) continue;
+      const distance = this.distanceMetres(location, { lat: address.lat, lng: address.lng });
+      if (!best || distance < best.distance) best = { address, distance };
+    }
+    return best;
+  }
+
+  /**
+   * Great-circle (haversine) distance between two points.
+   */
+  private distanceMetres(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371000 * Math.asin(Math.sqrt(h));
+  }
+
+  private coordinateKeys(tool: DiscoveredTool): { lat: string; lng: string } | null {
+    const names = Object.keys(tool.tool.inputSchema.properties ?? {});
+    const lat = names.find((name) => LAT_KEY.test(name));
+    const lng = names.find((name) => LNG_KEY.test(name));
+    return lat && lng ? { lat, lng } : null;
+  }
+
+  private async handleError(userId: number, chatId: number, service: SwiggyService, err: unknown): Promise<void> {
+    if (err instanceof AuthenticationRequiredError) {
+      this.mcpClientManager.invalidateClient(userId, service);
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_EXPIRED(SERVICE_LABELS[service]), { parse_mode: "HTML" });
+      return;
+    }
+    logger.error("Address picker error", { userId, service, error: String(err) });
+    await this.bot.sendMessage(chatId, MESSAGES.ERROR_GENERIC);
+  }
+}
@@ -0,0 +1,171 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { SwiggyService } from "../types/mcp.types.js";
+import type { AgentStep, ParsedIntent } from "../types/gemini.types.js";
+import type { NluProvider } from "../nlu/nluProvider.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import { CHECKOUT_SERVICES, type CheckoutFlow, type CheckoutService } from "./checkoutFlow.js";
+import { needsConfirmation } from "../nlu/toolFunctions.js";
+import { validateSchema } from "../nlu/schemaValidator.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { AGENT_RESULT_MAX_CHARS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+// Tools safe to call twice — a retry after a lost response can't change anything
+const READ_ONLY_TOOL_PATTERNS = [/^(get|list|search|find|fetch|view|show|track|check)_?/i, /_(details|status|summary)$/i];
+
+/** Fills in per-user arguments (delivery address, shared location) before each call */
+export type ToolArgsPreparer = (userId: number, service: SwiggyService, toolName: string, args: Record<string, unknown>) => void;
+
+/**
+ * Runs requests that need several tools in a row ("add a paneer roll from
+ * the closest place to my cart"): the model picks a tool, its result is fed
+ * back, and so on until it answers in plain text or the step budget runs
+ * out. A single progress message is edited after every call.
+ *
+ * The model is never offered order-placing or booking tools. When it asks
+ * to check out, the loop stops and hands over to CheckoutFlow, so nothing
+ * is ordered until the user confirms the bill.
+ */
+export class AgentLoop {
+  private bot: TelegramBot;
+  private nlu: NluProvider;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private messageFormatter: MessageFormatter;
+  private checkoutFlow: CheckoutFlow;
+  private prepareArgs: ToolArgsPreparer;
+  private maxSteps: number;
+
+  constructor(
+    bot: TelegramBot,
+    nlu: NluProvider,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    messageFormatter: MessageFormatter,
+    checkoutFlow: CheckoutFlow,
+    prepareArgs: ToolArgsPreparer,
+    maxSteps: number,
+  ) {
+    this.bot = bot;
+    this.nlu = nlu;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.messageFormatter = messageFormatter;
+    this.checkoutFlow = checkoutFlow;
+    this.prepareArgs = prepareArgs;
+    this.maxSteps = maxSteps;
+  }
+
+  /**
+   * Work through a multi-step request. Returns a summary for the
+   * conversation memory. AuthenticationRequiredError is left to the caller.
+   */
+  async run(userId: number, chatId: number, service: SwiggyService, client: Client, intent: ParsedIntent): Promise<string> {
+    const tools = this.toolDiscovery.getToolsForService(service, userId);
+    const canCheckout = CHECKOUT_SERVICES.includes(service as CheckoutService);
+    const steps: AgentStep[] = [];
+
+    const progress = await this.bot.sendMessage(chatId, this.messageFormatter.formatAgentProgress(steps), { parse_mode: "HTML" });
+    const render = (running?: string, note?: string) => this.render(chatId, progress.message_id, steps, running, note);
+
+    while (steps.length < this.maxSteps) {
+      const action = await this.nlu.nextAgentAction(intent.originalQuery, steps, tools, {
+        checkout: canCheckout,
+        stepsLeft: this.maxSteps - steps.length,
+      });
+
+      if (!action) {
+        await render(undefined, "<i>I lost track of this one — try asking one step at a time.</i>");
+        return "Agent stopped: no usable next step";
+      }
+
+      if (action.type === "answer") {
+        await render(undefined, "<i>Done.</i>");
+        await this.bot.sendMessage(chatId, action.text);
+        logger.info("Agent finished", { userId, service, steps: steps.length });
+        return action.text.substring(0, 500);
+      }
+
+      // Belt and braces: order-placing tools aren't declared, but never call one here
+      if (action.type === "checkout" || needsConfirmation(action.toolName)) {
+        if (!canCheckout) {
+          await render(undefined, "<i>Bookings need your confirmation — ask me to book a table at the restaurant to continue.</i>");
+          return "Agent stopped before booking";
+        }
+        await render(undefined, "<i>Ready to order — please check the bill below.</i>");
+        await this.checkoutFlow.review(userId, chatId, service as CheckoutService);
+        logger.info("Agent handed over to checkout", { userId, service, steps: steps.length });
+        return "Agent filled the cart and showed the bill for confirmation";
+      }
+
+      await render(action.toolName);
+      steps.push(await this.callTool(userId, service, client, action.toolName, action.arguments));
+    }
+
+    await render(undefined, `<i>I stopped after ${this.maxSteps} steps without finishing — check /status or try a simpler request.</i>`);
+    logger.warn("Agent ran out of steps", { userId, service, steps: steps.length });
+    return `Agent stopped after ${this.maxSteps} steps`;
+  }
+
+  private async callTool(
+    userId: number,
+    service: SwiggyService,
+    client: Client,
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<AgentStep> {
+    this.prepareArgs(userId, service, toolName, args);
+
+    // Invalid arguments go back to the model as a failed step, so it can fix them next turn
+    const tool = this.toolDiscovery.getToolsForService(service, userId).find((t) => t.tool.name === toolName);
+    const validation = tool
+      ? validateSchema<Record<string, unknown>>(args, tool.tool.inputSchema, "arguments")
+      : { value: args, errors: [] };
+    if (validation.errors.length > 0) {
+      logger.warn("Agent tool arguments failed validation", { userId, service, toolName, errors: validation.errors });
+      return { toolName, arguments: args, result: `Invalid arguments:\n${validation.errors.join("\n")}`, failed: true };
+    }
+    args = validation.value;
+    logger.info("Agent calling MCP tool", { userId, service, toolName, arguments: args });
+
+    // Only read-only tools are retried: a retried add-to-cart could add the item twice
+    const readOnly = tool?.tool.annotations?.readOnlyHint
+      ?? READ_ONLY_TOOL_PATTERNS.some((pattern) => pattern.test(toolName));
+
+    try {
+      const result = readOnly
+        ? await this.toolInvoker.invokeWithRetry(client, service, toolName, args)
+        : await this.toolInvoker.invoke(client, service, toolName, args);
+      const text = result.content
+        .filter((c) => c.type === "text")
+        .map((c) => c.text ?? "")
+        .join("\n");
+      return { toolName, arguments: args, result: this.trim(text || "(no output)"), failed: result.isError };
+    } catch (err) {
+      if (err instanceof AuthenticationRequiredError) throw err;
+      logger.warn("Agent tool call failed", { userId, service, toolName, error: String(err) });
+      return { toolName, arguments: args, result: this.trim(String(err)), failed: true };
+    }
+  }
+
+  private trim(text: string): string {
+    return text.length > AGENT_RESULT_MAX_CHARS ? `${text.substring(0, AGENT_RESULT_MAX_CHARS)}\n…(truncated)` : text;
+  }
+
+  private async render(chatId: number, messageId: number, steps: AgentStep[], running?: string, note?: string): Promise<void> {
+    try {
+      await this.bot.editMessageText(this.messageFormatter.formatAgentProgress(steps, running, note), {
+        chat_id: chatId,
+        message_id: messageId,
+        parse_mode: "HTML",
+      });
+    } catch (err) {
+      if (!String(err).includes("message is not modified")) {
+        logger.warn("Failed to update agent progress", { chatId, error: String(err) });
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from "node:crypto";
+import type { CallbackData } from "../types/telegram.types.js";
+import { CALLBACK_TOKEN_TTL_MS, CALLBACK_REGISTRY_MAX_ENTRIES } from "../config/constants.js";
+
+/** Issues callback tokens on behalf of one user */
+export interface CallbackTokenIssuer {
+  issue(data: CallbackData): string;
+}
+
+export type ResolvedCallback =
+  | { status: "ok"; data: CallbackData }
+  | { status: "expired" }
+  /** The button was pressed by someone other than the user it was made for */
+  | { status: "foreign" };
+
+interface RegistryEntry {
+  userId: number;
+  data: CallbackData;
+  expiresAt: number;
+}
+
+/**
+ * Keeps inline-button payloads server-side so callback_data is always a
+ * short opaque token, regardless of how long Swiggy's IDs are. Tokens are
+ * bound to the user they were issued for and expire after
+ * CALLBACK_TOKEN_TTL_MS; the oldest are evicted first past the size cap.
+ */
+export class CallbackRegistry {
+  private entries: Map<string, RegistryEntry> = new Map();
+  private ttlMs: number;
+  private cleanupInterval: ReturnType<typeof setInterval>;
+
+  constructor(ttlMs: number = CALLBACK_TOKEN_TTL_MS) {
+    this.ttlMs = ttlMs;
+    this.cleanupInterval = setInterval(() => this.cleanupExpired(), 300000);
+  }
+
+  forUser(userId: number): CallbackTokenIssuer {
+    return { issue: (data) => this.register(userId, data) };
+  }
+
+  register(userId: number, data: CallbackData): string {
+    // 9 random bytes → 12 base64url chars, well inside Telegram's 64 bytes
+    const token = randomBytes(9).toString("base64url");
+    this.entries.set(token, { userId, data, expiresAt: Date.now() + this.ttlMs });
+
+    if (this.entries.size > CALLBACK_REGISTRY_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    return token;
+  }
+
+  resolve(token: string, userId: number): ResolvedCallback {
+    const entry = this.entries.get(token);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(token);
+      return { status: "expired" };
+    }
+    if (entry.userId !== userId) return { status: "foreign" };
+    return { status: "ok", data: entry.data };
+  }
+
+  /**
+   * Forget every token issued to a user (e.g. on /deletemydata).
+   */
+  revokeUser(userId: number): void {
+    for (const [token, entry] of this.entries.entries()) {
+      if (entry.userId === userId) this.entries.delete(token);
+    }
+  }
+
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+  }
+
+  private cleanupExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) this.entries.delete(token);
+    }
+  }
+}
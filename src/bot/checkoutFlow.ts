@@ -0,0 +1,376 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { SwiggyService, DiscoveredTool, ToolCallResult } from "../types/mcp.types.js";
+import type { CartLine, CartSummary, CheckoutSession } from "../types/order.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import type { OrderTracker } from "./orderTracker.js";
+import { buildConfirmCheckoutKeyboard } from "./inlineKeyboards.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { CHECKOUT_CONFIRM_TTL_MS, CHECKOUT_TOOL_PATTERNS, MESSAGES, SERVICE_LABELS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+export type CheckoutService = Extract<SwiggyService, "food" | "instamart">;
+
+export const CHECKOUT_SERVICES: CheckoutService[] = ["food", "instamart"];
+
+// Tool name patterns, most specific first. Only names that read the cart:
+// a looser match would land on clear_cart or add_to_cart.
+const CART_TOOL_PATTERNS = [/^(get|view|fetch|show)_\w*cart/i, /^cart_?(details|summary)$/i, /^cart$/i];
+
+/**
+ * Cart review and COD checkout for food and Instamart.
+ *
+ *   review()  → fetch the cart, show Swiggy's bill with Confirm/Cancel
+ *   confirm() → re-check the bill, then place the order exactly once and
+ *               hand it to the OrderTracker
+ *
+ * Each review gets a nonce carried by its buttons. confirm() moves the
+ * session out of "awaiting_confirmation" before its first await, so a
+ * double-tap (or a stale button) can never reach the checkout tool twice.
+ */
+export class CheckoutFlow {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+  private orderTracker: OrderTracker;
+  private sessions: Map<string, CheckoutSession> = new Map();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+    orderTracker: OrderTracker,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+    this.orderTracker = orderTracker;
+  }
+
+  /**
+   * Show the current cart and bill with Confirm/Cancel buttons.
+   */
+  async review(userId: number, chatId: number, service: CheckoutService): Promise<void> {
+    this.pruneExpired();
+
+    const existing = this.sessions.get(this.key(userId, service));
+    if (existing?.status === "placing") {
+      await this.bot.sendMessage(chatId, "Your order is still being placed — hang on a moment.");
+      return;
+    }
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, service);
+      const cart = await this.fetchCart(userId, service, client);
+      if (!cart) {
+        await this.bot.sendMessage(chatId, `I couldn't read your ${SERVICE_LABELS[service]} cart right now. Please try again.`);
+        return;
+      }
+      await this.showBill(userId, chatId, service, cart);
+    } catch (err) {
+      await this.handleError(userId, chatId, service, err);
+    }
+  }
+
+  /**
+   * Place the order reviewed under `checkoutId`. Safe to call repeatedly:
+   * only the first call for a given review can reach the checkout tool.
+   */
+  async confirm(userId: number, chatId: number, service: CheckoutService, checkoutId: string): Promise<void> {
+    this.pruneExpired();
+
+    const session = this.sessions.get(this.key(userId, service));
+    if (!session || session.id !== checkoutId) {
+      await this.bot.sendMessage(chatId, "This checkout has expired. Ask me to show your cart again to get a fresh bill.");
+      return;
+    }
+
+    switch (session.status) {
+      case "placing":
+        await this.bot.sendMessage(chatId, "Your order is already being placed.");
+        return;
+      case "placed":
+        await this.bot.sendMessage(
+          chatId,
+          `This order was already placed${session.orderId ? ` (order <code>${this.messageFormatter.escapeHtml(session.orderId)}</code>)` : ""}.`,
+          { parse_mode: "HTML" },
+        );
+        return;
+      case "unknown":
+        await this.bot.sendMessage(chatId, "I couldn't confirm whether this order went through. Please check the Swiggy app before ordering again.");
+        return;
+    }
+
+    // Claim the session before any await — this is the double-tap guard
+    session.status = "placing";
+
+    if (this.sessionStore.getActiveProfileName(userId) !== session.profile) {
+      this.sessions.delete(this.key(userId, service));
+      await this.bot.sendMessage(chatId, "You switched accounts since reviewing this cart. Ask me to show your cart again.");
+      return;
+    }
+
+    if (this.sessionStore.getAddressId(userId, service) !== session.addressId || this.locationKey(userId, service) !== session.location) {
+      this.sessions.delete(this.key(userId, service));
+      await this.bot.sendMessage(chatId, "You changed your delivery address since reviewing this cart. Ask me to show your cart again for an updated bill.");
+      return;
+    }
+
+    let client: Client;
+    let cart: CartSummary | null;
+    try {
+      client = await this.mcpClientManager.getClient(userId, service);
+      cart = await this.fetchCart(userId, service, client);
+      if (!cart || this.fingerprint(cart) !== session.cartFingerprint) {
+        this.sessions.delete(this.key(userId, service));
+        if (cart) {
+          await this.bot.sendMessage(chatId, "Your cart changed since you reviewed it. Here's the updated bill:");
+          await this.showBill(userId, chatId, service, cart);
+        } else {
+          await this.bot.sendMessage(chatId, "I couldn't re-check your cart before ordering, so nothing was placed. Please try again.");
+        }
+        return;
+      }
+    } catch (err) {
+      this.sessions.delete(this.key(userId, service));
+      await this.handleError(userId, chatId, service, err);
+      return;
+    }
+
+    const checkoutTool = this.toolDiscovery.findTool(service, userId, CHECKOUT_TOOL_PATTERNS);
+    if (!checkoutTool) {
+      this.sessions.delete(this.key(userId, service));
+      await this.bot.sendMessage(chatId, `${SERVICE_LABELS[service]} doesn't offer a checkout tool for your account right now.`);
+      return;
+    }
+
+    let result: ToolCallResult;
+    try {
+      // Never retried automatically: a retry after a lost response could place a second order
+      result = await this.toolInvoker.invoke(client, service, checkoutTool.tool.name, this.buildCheckoutArgs(userId, service, checkoutTool));
+    } catch (err) {
+      session.status = "unknown";
+      session.expiresAt = Date.now() + CHECKOUT_CONFIRM_TTL_MS;
+      logger.error("Checkout outcome unknown", { userId, service, checkoutId, error: String(err) });
+      await this.bot.sendMessage(chatId, "Something went wrong while placing your order and I couldn't tell whether it went through. Please check the Swiggy app before trying again.");
+      return;
+    }
+
+    const text = result.content.filter((c) => c.type === "text").map((c) => c.text ?? "").join("\n");
+    if (result.isError) {
+      this.sessions.delete(this.key(userId, service));
+      await this.bot.sendMessage(
+        chatId,
+        `Swiggy couldn't place your order.\n\n<b>Error:</b> <i>${this.messageFormatter.escapeHtml(text.substring(0, 500))}</i>`,
+        { parse_mode: "HTML" },
+      );
+      return;
+    }
+
+    session.status = "placed";
+    session.expiresAt = Date.now() + CHECKOUT_CONFIRM_TTL_MS;
+    session.orderId = this.extractOrderId(text);
+    logger.info("Order placed", { userId, service, checkoutId, orderId: session.orderId });
+
+    // Remember what was ordered so /reorder can rebuild it
+    this.sessionStore.recordOrder(userId, {
+      service,
+      orderId: session.orderId,
+      restaurantId: cart.restaurantId,
+      restaurantName: cart.restaurantName,
+      items: cart.items
+        .filter((item): item is CartLine & { id: string } => item.id !== undefined)
+        .map((item) => ({
+          id: item.id,
+          name: item.name,
+          quantity: item.quantity,
+          // Cart lines carry the line total; keep the unit price
+          price: item.price != null ? Math.round((item.price / Math.max(1, item.quantity)) * 100) / 100 : undefined,
+        })),
+      total: session.total,
+      placedAt: Date.now(),
+    });
+
+    let message = `✅ <b>Order placed on ${SERVICE_LABELS[service]}!</b>`;
+    if (session.orderId) message += `\nOrder ID: <code>${this.messageFormatter.escapeHtml(session.orderId)}</code>`;
+    if (session.total != null) message += `\nPay ₹${session.total} in cash on delivery.`;
+    await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
+
+    try {
+      await this.orderTracker.track(userId, chatId, service, client, session.orderId);
+    } catch (err) {
+      // The order went through either way; only the live updates are lost
+      logger.warn("Failed to start order tracking", { userId, service, orderId: session.orderId, error: String(err) });
+    }
+  }
+
+  async cancel(userId: number, chatId: number, service: CheckoutService, checkoutId: string): Promise<void> {
+    const session = this.sessions.get(this.key(userId, service));
+    if (session?.id === checkoutId && session.status === "awaiting_confirmation") {
+      this.sessions.delete(this.key(userId, service));
+    }
+    await this.bot.sendMessage(chatId, "Order cancelled. Your cart is unchanged.");
+  }
+
+  /**
+   * Drop a bill still waiting for Confirm, e.g. after the delivery address
+   * changed. Returns true if there was one.
+   */
+  invalidate(userId: number, service: CheckoutService): boolean {
+    const session = this.sessions.get(this.key(userId, service));
+    if (session?.status !== "awaiting_confirmation") return false;
+    this.sessions.delete(this.key(userId, service));
+    return true;
+  }
+
+  private async showBill(userId: number, chatId: number, service: CheckoutService, cart: CartSummary): Promise<void> {
+    if (cart.items.length === 0) {
+      this.sessions.delete(this.key(userId, service));
+      await this.bot.sendMessage(chatId, `Your ${SERVICE_LABELS[service]} cart is empty.`);
+      return;
+    }
+
+    const now = Date.now();
+    const session: CheckoutSession = {
+      id: crypto.randomUUID().replace(/-/g, "").substring(0, 10),
+      userId,
+      service,
+      profile: this.sessionStore.getActiveProfileName(userId),
+      addressId: this.sessionStore.getAddressId(userId, service),
+      location: this.locationKey(userId, service),
+      status: "awaiting_confirmation",
+      cartFingerprint: this.fingerprint(cart),
+      total: cart.total,
+      createdAt: now,
+      expiresAt: now + CHECKOUT_CONFIRM_TTL_MS,
+    };
+    this.sessions.set(this.key(userId, service), session);
+
+    await this.bot.sendMessage(chatId, this.messageFormatter.formatCartBill(service, cart), {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: buildConfirmCheckoutKeyboard(this.callbacks.forUser(userId), service, session.id) },
+    });
+  }
+
+  private async fetchCart(userId: number, service: CheckoutService, client: Client): Promise<CartSummary | null> {
+    const cartTool = await this.toolDiscovery.findToolForUser(userId, service, client, CART_TOOL_PATTERNS);
+    if (!cartTool) {
+      logger.warn("No cart tool discovered", { userId, service });
+      return null;
+    }
+
+    const result = await this.toolInvoker.invokeWithRetry(client, service, cartTool.tool.name, this.buildAddressArgs(userId, service, cartTool));
+    if (result.isError) {
+      logger.warn("Cart tool returned error", { userId, service, toolName: cartTool.tool.name });
+      return null;
+    }
+    return this.resultFilter.parseCart(result);
+  }
+
+  /**
+   * Fill the checkout tool's arguments we can vouch for: the saved address
+   * and cash on delivery as the payment method.
+   */
+  private buildCheckoutArgs(userId: number, service: CheckoutService, tool: DiscoveredTool): Record<string, unknown> {
+    const args = this.buildAddressArgs(userId, service, tool);
+    const properties = (tool.tool.inputSchema.properties ?? {}) as Record<string, { enum?: unknown[] }>;
+
+    for (const [name, schema] of Object.entries(properties)) {
+      if (!/payment/i.test(name)) continue;
+      const cod = schema.enum?.find((v) => typeof v === "string" && /cod|cash/i.test(v));
+      args[name] = cod ?? "COD";
+    }
+    return args;
+  }
+
+  private buildAddressArgs(userId: number, service: CheckoutService, tool: DiscoveredTool): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, service);
+    const properties = tool.tool.inputSchema.properties ?? {};
+    if (addressId) {
+      for (const name of ["addressId", "address_id"]) {
+        if (name in properties) args[name] = addressId;
+      }
+    }
+    return args;
+  }
+
+  private fingerprint(cart: CartSummary): string {
+    return JSON.stringify([cart.total, cart.items.map((i) => [i.name, i.quantity, i.price])]);
+  }
+
+  private extractOrderId(text: string): string | undefined {
+    try {
+      const parsed = JSON.parse(text) as Record<string, unknown>;
+      const order = (parsed.order ?? parsed.data ?? parsed) as Record<string, unknown>;
+      const id = order.orderId ?? order.order_id ?? order.id;
+      return id != null ? String(id) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async handleError(userId: number, chatId: number, service: CheckoutService, err: unknown): Promise<void> {
+    if (err instanceof AuthenticationRequiredError) {
+      this.mcpClientManager.invalidateClient(userId, service);
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_EXPIRED(SERVICE_LABELS[service]), { parse_mode: "HTML" });
+      return;
+    }
+    logger.error("Checkout flow error", { userId, service, error: String(err) });
+    await this.bot.sendMessage(chatId, MESSAGES.ERROR_GENERIC);
+  }
+
+  /** Returns the number of checkouts removed. */
+  clearUser(userId: number): number {
+    let removed = 0;
+    for (const [key, session] of this.sessions.entries()) {
+      if (session.userId !== userId) continue;
+      this.sessions.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Drop reviews nobody confirmed in time. Placed and unknown sessions are
+   * kept until expiry so late taps still get an accurate answer.
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions.entries()) {
+      if (session.status !== "placing" && session.expiresAt <= now) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private key(userId: number, service: SwiggyService): string {
+    return `${userId}:${service}`;
+  }
+
+  private locationKey(userId: number, service: SwiggyService): string | undefined {
+    const location = this.sessionStore.getLocation(userId, service);
+    return location ? `${location.lat},${location.lng}` : undefined;
+  }
+}
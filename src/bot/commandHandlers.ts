@@ -5,8 +5,17 @@ import type { ConversationMemory } from "../memory/conversationMemory.js";
 import type { McpClientManager } from "../mcp/mcpClientManager.js";
 import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
 import type { ToolInvoker } from "../mcp/toolInvoker.js";
-import { MESSAGES, VALID_SERVICES, SERVICE_LABELS, OAUTH_FLOW_TIMEOUT_MS } from "../config/constants.js";
-import { buildLoginKeyboard, buildAuthLinkKeyboard } from "./inlineKeyboards.js";
+import type { OAuthFlowManager } from "../auth/oauthFlowManager.js";
+import type { TokenRevoker } from "../auth/tokenRevoker.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import type { ResultPageStore } from "../memory/resultPageStore.js";
+import type { CheckoutFlow } from "./checkoutFlow.js";
+import type { MenuBrowser } from "./menuBrowser.js";
+import type { DineoutWizard } from "./dineoutWizard.js";
+import type { GroceryBasketBuilder } from "./groceryBasket.js";
+import { MESSAGES, VALID_SERVICES, SERVICE_LABELS } from "../config/constants.js";
+import { buildLoginKeyboard, buildAuthLinkKeyboard, buildDeleteDataKeyboard } from "./inlineKeyboards.js";
 import { logger } from "../utils/logger.js";
 
 export class CommandHandlers {
@@ -16,6 +25,16 @@ export class CommandHandlers {
   private mcpClientManager: McpClientManager;
   private toolDiscovery: ToolDiscovery;
   private toolInvoker: ToolInvoker;
+  private flowManager: OAuthFlowManager;
+  private tokenRevoker: TokenRevoker;
+  private rateLimiter: RateLimiter;
+  private callbacks: CallbackRegistry;
+  private resultPages: ResultPageStore;
+  private checkoutFlow: CheckoutFlow;
+  private menuBrowser: MenuBrowser;
+  private dineoutWizard: DineoutWizard;
+  private groceryBasket: GroceryBasketBuilder;
+  private adminUserIds: number[];
 
   constructor(
     bot: TelegramBot,
@@ -24,6 +43,16 @@ export class CommandHandlers {
     mcpClientManager: McpClientManager,
     toolDiscovery: ToolDiscovery,
     toolInvoker: ToolInvoker,
+    flowManager: OAuthFlowManager,
+    tokenRevoker: TokenRevoker,
+    rateLimiter: RateLimiter,
+    callbacks: CallbackRegistry,
+    resultPages: ResultPageStore,
+    checkoutFlow: CheckoutFlow,
+    menuBrowser: MenuBrowser,
+    dineoutWizard: DineoutWizard,
+    groceryBasket: GroceryBasketBuilder,
+    adminUserIds: number[] = [],
   ) {
     this.bot = bot;
     this.sessionStore = sessionStore;
@@ -31,6 +60,16 @@ export class CommandHandlers {
     this.mcpClientManager = mcpClientManager;
     this.toolDiscovery = toolDiscovery;
     this.toolInvoker = toolInvoker;
+    this.flowManager = flowManager;
+    this.tokenRevoker = tokenRevoker;
+    this.rateLimiter = rateLimiter;
+    this.callbacks = callbacks;
+    this.resultPages = resultPages;
+    this.checkoutFlow = checkoutFlow;
+    this.menuBrowser = menuBrowser;
+    this.dineoutWizard = dineoutWizard;
+    this.groceryBasket = groceryBasket;
+    this.adminUserIds = adminUserIds;
   }
 
   async handleStart(msg: TelegramBot.Message): Promise<void> {
@@ -56,7 +95,7 @@ export class CommandHandlers {
       await this.bot.sendMessage(
         chatId,
         "Which Swiggy service would you like to connect?",
-        { reply_markup: { inline_keyboard: buildLoginKeyboard() } },
+        { reply_markup: { inline_keyboard: buildLoginKeyboard(this.callbacks.forUser(userId)) } },
       );
       return;
     }
@@ -89,17 +128,8 @@ export class CommandHandlers {
       { parse_mode: "HTML" },
     );
 
-    // Register a pending OAuth flow
-    const state = crypto.randomUUID();
-    this.sessionStore.registerPendingFlow(state, {
-      telegramUserId: userId,
-      chatId,
-      service,
-      codeVerifier: "", // Will be set by the OAuth provider
-      state,
-      createdAt: Date.now(),
-      expiresAt: Date.now() + OAUTH_FLOW_TIMEOUT_MS,
-    });
+    // Register a pending OAuth flow, superseding any earlier /login for this service
+    const state = this.flowManager.begin(userId, chatId, service);
 
     try {
       const authUrl = await this.mcpClientManager.initiateAuth(userId, service, state);
@@ -140,6 +170,7 @@ export class CommandHandlers {
       }
     } catch (err) {
       logger.error("Failed to initiate login", { userId, service, error: String(err) });
+      this.flowManager.abandon(state);
       await this.bot.sendMessage(
         chatId,
         `Failed to start authentication for ${SERVICE_LABELS[service]}. Please try again later.`,
@@ -162,12 +193,195 @@ export class CommandHandlers {
       return;
     }
 
+    const revoked = await this.revokeQuietly(userId, service);
     await this.mcpClientManager.disconnectClient(userId, service);
     this.sessionStore.clearTokens(userId, service);
+    this.toolDiscovery.invalidateUser(userId);
+
+    await this.bot.sendMessage(
+      chatId,
+      `Disconnected from <b>${SERVICE_LABELS[service]}</b>.` +
+        (revoked ? " Your login was also revoked at Swiggy." : ""),
+      { parse_mode: "HTML" },
+    );
+  }
+
+  /**
+   * Ask for confirmation before wiping everything the bot holds for a user.
+   */
+  async handleDeleteMyData(msg: TelegramBot.Message): Promise<void> {
+    await this.bot.sendMessage(
+      msg.chat.id,
+      "This will log you out of every Swiggy service on every linked account, revoke your logins at Swiggy, and delete your conversation history and saved addresses.\n\nThis cannot be undone.",
+      { reply_markup: { inline_keyboard: buildDeleteDataKeyboard(this.callbacks.forUser(msg.from!.id)) } },
+    );
+  }
+
+  /**
+   * Revoke every token the user holds, then remove all per-user state:
+   * session and profiles, pending logins, favourites and past orders,
+   * conversation history, saved search results, tool caches, MCP
+   * connections, rate-limit counters and issued buttons.
+   */
+  async confirmDeleteMyData(userId: number, chatId: number): Promise<void> {
+    let revoked = 0;
+    for (const profile of this.sessionStore.listProfiles(userId)) {
+      for (const service of this.sessionStore.getAuthenticatedServices(userId, profile.name)) {
+        if (await this.revokeQuietly(userId, service, profile.name)) revoked++;
+      }
+    }
+
+    await this.mcpClientManager.disconnectUser(userId);
+    const removed = this.sessionStore.deleteUserData(userId);
+    const turns = this.conversationMemory.clearHistory(userId);
+    const searches = this.resultPages.clearUser(userId);
+    const checkouts = this.checkoutFlow.clearUser(userId);
+    const menus = this.menuBrowser.clearUser(userId);
+    const bookings = this.dineoutWizard.clearUser(userId);
+    const baskets = this.groceryBasket.clearUser(userId);
+    this.toolDiscovery.invalidateUser(userId);
+    this.rateLimiter.reset(userId);
+    this.callbacks.revokeUser(userId);
+
+    logger.info("Deleted user data", { userId, ...removed, turns, searches, checkouts, menus, bookings, baskets, revoked });
+
+    const lines = [
+      "<b>Your data has been deleted.</b>",
+      "",
+      `• Linked accounts: ${removed.profiles}`,
+      `• Connected services: ${removed.services} (${revoked} revoked at Swiggy)`,
+      `• Pending logins: ${removed.pendingFlows}`,
+      `• Conversation messages: ${turns}`,
+      `• Saved search results: ${searches}`,
+      `• Open checkouts: ${checkouts}`,
+      `• Open menus: ${menus}`,
+      `• Unfinished table bookings: ${bookings}`,
+      `• Grocery baskets: ${baskets}`,
+      `• Favourites: ${removed.favourites}`,
+      `• Past orders: ${removed.orders}`,
+      "",
+      "Use /start if you want to use the bot again.",
+    ];
+    await this.bot.sendMessage(chatId, lines.join("\n"), { parse_mode: "HTML" });
+  }
+
+  /**
+   * Revocation is best-effort: a failure must not block the local logout.
+   */
+  private async revokeQuietly(userId: number, service: SwiggyService, profile?: string): Promise<boolean> {
+    try {
+      return await this.tokenRevoker.revoke(userId, service, profile);
+    } catch (err) {
+      logger.warn("Token revocation failed", { userId, service, error: String(err) });
+      return false;
+    }
+  }
+
+  /**
+   * Admin: drop the shared OAuth client registration for a service so the
+   * next login registers a fresh client with Swiggy.
+   */
+  async handleReregister(msg: TelegramBot.Message, serviceArg?: string): Promise<void> {
+    const userId = msg.from!.id;
+    const chatId = msg.chat.id;
+
+    if (!this.adminUserIds.includes(userId)) {
+      logger.warn("Non-admin attempted /reregister", { userId });
+      return;
+    }
+
+    const service = serviceArg?.toLowerCase() as SwiggyService;
+    if (!service || !VALID_SERVICES.includes(service)) {
+      await this.bot.sendMessage(chatId, `Usage: /reregister <service>\nServices: ${VALID_SERVICES.join(", ")}`);
+      return;
+    }
+
+    const removed = this.sessionStore.clearClientInfo(service);
+    logger.info("Cleared OAuth client registrations", { userId, service, removed });
+
+    await this.bot.sendMessage(
+      chatId,
+      `Removed ${removed} client registration(s) for <b>${SERVICE_LABELS[service]}</b>. The next /login will register a new client.\n\nExisting sessions keep working until their tokens need refreshing, then users will be asked to log in again.`,
+      { parse_mode: "HTML" },
+    );
+  }
 
+  /**
+   * /account add|use|list — manage named Swiggy accounts under one Telegram user.
+   */
+  async handleAccount(msg: TelegramBot.Message, args?: string): Promise<void> {
+    const userId = msg.from!.id;
+    const chatId = msg.chat.id;
+
+    this.sessionStore.getOrCreateSession(userId, chatId, msg.from?.username);
+
+    const [subcommand, rawName] = (args ?? "").split(/\s+/).filter(Boolean);
+    const name = rawName?.toLowerCase();
+    const usage = "Usage:\n/account list\n/account add &lt;name&gt;\n/account use &lt;name&gt;";
+
+    if (!subcommand || subcommand === "list") {
+      const active = this.sessionStore.getActiveProfileName(userId);
+      const lines = this.sessionStore.listProfiles(userId).map((profile) => {
+        const services = this.sessionStore.getAuthenticatedServices(userId, profile.name);
+        const connected = services.length > 0
+          ? services.map((s) => SERVICE_LABELS[s]).join(", ")
+          : "not connected";
+        const marker = profile.name === active ? "👉" : "  ";
+        return `${marker} <b>${this.escapeHtml(profile.name)}</b> — ${connected}`;
+      });
+      await this.bot.sendMessage(
+        chatId,
+        `<b>Swiggy accounts:</b>\n\n${lines.join("\n")}\n\n${usage}`,
+        { parse_mode: "HTML" },
+      );
+      return;
+    }
+
+    if ((subcommand !== "add" && subcommand !== "use") || !name) {
+      await this.bot.sendMessage(chatId, usage, { parse_mode: "HTML" });
+      return;
+    }
+
+    if (!/^[a-z0-9_-]{1,20}$/.test(name)) {
+      await this.bot.sendMessage(chatId, "Account names can use up to 20 letters, digits, - and _.");
+      return;
+    }
+
+    // Names like __proto__ or constructor would resolve to Object.prototype members
+    if (name in Object.prototype) {
+      await this.bot.sendMessage(chatId, `<b>${name}</b> can't be used as an account name.`, { parse_mode: "HTML" });
+      return;
+    }
+
+    if (subcommand === "add") {
+      if (!this.sessionStore.addProfile(userId, name)) {
+        await this.bot.sendMessage(chatId, `An account named <b>${name}</b> already exists.`, { parse_mode: "HTML" });
+        return;
+      }
+      this.sessionStore.useProfile(userId, name);
+      logger.info("Added account profile", { userId, profile: name });
+      await this.bot.sendMessage(
+        chatId,
+        `Added and switched to account <b>${name}</b>.\nUse /login to connect its Swiggy services.`,
+        { parse_mode: "HTML" },
+      );
+      return;
+    }
+
+    if (!this.sessionStore.useProfile(userId, name)) {
+      await this.bot.sendMessage(
+        chatId,
+        `No account named <b>${name}</b>. Use /account add ${name} to create it.`,
+        { parse_mode: "HTML" },
+      );
+      return;
+    }
+
+    logger.info("Switched account profile", { userId, profile: name });
+    const services = this.sessionStore.getAuthenticatedServices(userId);
     await this.bot.sendMessage(
       chatId,
-      `Disconnected from <b>${SERVICE_LABELS[service]}</b>.`,
+      `Switched to account <b>${name}</b>.${services.length === 0 ? "\nUse /login to connect its Swiggy services." : ""}`,
       { parse_mode: "HTML" },
     );
   }
@@ -191,9 +405,13 @@ export class CommandHandlers {
       return `${isConnected ? "✅" : "❌"} ${SERVICE_LABELS[s]}`;
     });
 
+    const account = this.sessionStore.listProfiles(userId).length > 1
+      ? ` (account: ${this.escapeHtml(this.sessionStore.getActiveProfileName(userId))})`
+      : "";
+
     await this.bot.sendMessage(
       chatId,
-      `<b>Connection Status:</b>\n\n${statusLines.join("\n")}`,
+      `<b>Connection Status</b>${account}<b>:</b>\n\n${statusLines.join("\n")}`,
       { parse_mode: "HTML" },
     );
   }
@@ -316,10 +534,11 @@ export class CommandHandlers {
           }
         }
 
-        // Show cached addressId
+        // Show the address searches and orders use
         const cachedAddr = this.sessionStore.getAddressId(userId, service);
         if (cachedAddr) {
-          serviceSection += `\n  Cached addressId: <code>${this.escapeHtml(cachedAddr)}</code>\n`;
+          const label = this.sessionStore.getAddressLabel(userId, service);
+          serviceSection += `\n  Delivering to: ${label ? `<b>${this.escapeHtml(label)}</b> ` : ""}(<code>${this.escapeHtml(cachedAddr)}</code>) — change with /address\n`;
           hasData = true;
         }
 
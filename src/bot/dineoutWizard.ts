@@ -0,0 +1,299 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { BookingWizard } from "../types/dineout.types.js";
+import type { CallbackData } from "../types/telegram.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import {
+  buildBookingDateKeyboard,
+  buildBookingGuestsKeyboard,
+  buildBookingSlotsKeyboard,
+  buildBookingConfirmKeyboard,
+} from "./inlineKeyboards.js";
+import { editFlowMessage, replyWithFlowError } from "./flowMessages.js";
+import { BOOKING_WIZARD_TTL_MS, BOOK_TOOL_PATTERNS, CONFIRMATION_TOOL_PATTERNS, MESSAGES, SERVICE_LABELS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+// Slot lookups start with a read verb, so book_slot / reserve_slot never match
+const SLOT_TOOL_PATTERNS = [/^(get|list|fetch|check|find|search)_?\w*slot/i, /^(get|list|fetch|check)_?\w*availab/i];
+
+export type BookingCallback = Extract<CallbackData, { wizardId: string }>;
+
+/**
+ * Step-by-step Dineout table booking:
+ *
+ *   date → party size → slot (from the slot tool) → summary → book
+ *
+ * Every step edits the same message. Like checkout, confirming moves the
+ * wizard out of "choosing" before the first await, so a double-tap can't
+ * book twice.
+ */
+export class DineoutWizard {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+  private wizards: Map<number, BookingWizard> = new Map();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Start a booking for a restaurant, replacing any unfinished one.
+   * A party size mentioned in the user's request skips that step.
+   */
+  async start(
+    userId: number,
+    chatId: number,
+    restaurantId: string,
+    restaurantName: string,
+    guests?: number,
+  ): Promise<void> {
+    if (!this.sessionStore.isAuthenticated(userId, "dineout")) {
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS.dineout), { parse_mode: "HTML" });
+      return;
+    }
+
+    const wizard: BookingWizard = {
+      id: crypto.randomUUID().replace(/-/g, "").substring(0, 8),
+      restaurantId,
+      restaurantName,
+      guests: guests && guests > 0 ? guests : undefined,
+      status: "choosing",
+      expiresAt: Date.now() + BOOKING_WIZARD_TTL_MS,
+    };
+    this.wizards.set(userId, wizard);
+
+    await this.bot.sendMessage(
+      chatId,
+      `${this.messageFormatter.formatBookingSummary(wizard)}\nWhen would you like to go?`,
+      { parse_mode: "HTML", reply_markup: { inline_keyboard: buildBookingDateKeyboard(this.callbacks.forUser(userId), wizard.id) } },
+    );
+  }
+
+  /** Returns the number of bookings in progress removed (zero or one). */
+  clearUser(userId: number): number {
+    return this.wizards.delete(userId) ? 1 : 0;
+  }
+
+  async handleCallback(userId: number, chatId: number, messageId: number, data: BookingCallback): Promise<void> {
+    const wizard = this.wizards.get(userId);
+    if (!wizard || wizard.id !== data.wizardId || wizard.expiresAt <= Date.now()) {
+      await this.bot.sendMessage(chatId, "This booking has expired. Tap the restaurant again to start over.");
+      return;
+    }
+
+    if (wizard.status !== "choosing") {
+      await this.bot.sendMessage(
+        chatId,
+        wizard.status === "booked" ? "This table is already booked." : "Your booking is already being made.",
+      );
+      return;
+    }
+    wizard.expiresAt = Date.now() + BOOKING_WIZARD_TTL_MS;
+
+    switch (data.action) {
+      case "book_date":
+        wizard.date = data.date;
+        wizard.slot = undefined;
+        if (wizard.guests) {
+          await this.showSlots(userId, chatId, messageId, wizard);
+        } else {
+          await this.showGuests(userId, chatId, messageId, wizard);
+        }
+        return;
+
+      case "book_guests":
+        wizard.guests = data.guests;
+        wizard.slot = undefined;
+        await this.showSlots(userId, chatId, messageId, wizard);
+        return;
+
+      case "book_slot": {
+        const slot = wizard.slots?.[data.slotIdx];
+        if (!slot) return;
+        wizard.slot = slot;
+        await editFlowMessage(this.bot, chatId, messageId,
+          `${this.messageFormatter.formatBookingSummary(wizard)}\nBook this table?`,
+          buildBookingConfirmKeyboard(this.callbacks.forUser(userId), wizard.id));
+        return;
+      }
+
+      case "book_back":
+        wizard.slot = undefined;
+        if (data.step === "date") {
+          wizard.date = undefined;
+          await editFlowMessage(this.bot, chatId, messageId,
+            `${this.messageFormatter.formatBookingSummary(wizard)}\nWhen would you like to go?`,
+            buildBookingDateKeyboard(this.callbacks.forUser(userId), wizard.id));
+        } else if (data.step === "guests") {
+          await this.showGuests(userId, chatId, messageId, wizard);
+        } else {
+          await this.showSlots(userId, chatId, messageId, wizard);
+        }
+        return;
+
+      case "book_cancel":
+        this.wizards.delete(userId);
+        await editFlowMessage(this.bot, chatId, messageId, "Booking cancelled.", []);
+        return;
+
+      case "book_confirm":
+        await this.book(userId, chatId, messageId, wizard);
+        return;
+    }
+  }
+
+  private async showGuests(userId: number, chatId: number, messageId: number, wizard: BookingWizard): Promise<void> {
+    await editFlowMessage(this.bot, chatId, messageId,
+      `${this.messageFormatter.formatBookingSummary({ ...wizard, guests: undefined })}\nHow many guests?`,
+      buildBookingGuestsKeyboard(this.callbacks.forUser(userId), wizard.id));
+  }
+
+  private async showSlots(userId: number, chatId: number, messageId: number, wizard: BookingWizard): Promise<void> {
+    try {
+      const client = await this.mcpClientManager.getClient(userId, "dineout");
+      // Looking up slots must never land on a tool that books one
+      const slotTool = await this.toolDiscovery.findToolForUser(userId, "dineout", client, SLOT_TOOL_PATTERNS, CONFIRMATION_TOOL_PATTERNS);
+      if (!slotTool) {
+        await this.bot.sendMessage(chatId, "Checking table availability isn't available for your account right now.");
+        return;
+      }
+
+      const result = await this.toolInvoker.invokeWithRetry(client, "dineout", slotTool.tool.name, this.buildArgs(userId, slotTool, wizard));
+      const slots = result.isError ? null : this.resultFilter.parseSlots(result);
+      if (slots === null) {
+        logger.warn("Slot tool returned no usable slots", { userId, restaurantId: wizard.restaurantId, isError: result.isError });
+        await this.bot.sendMessage(chatId, "I couldn't check availability for this restaurant. Please try again later.");
+        return;
+      }
+      wizard.slots = slots;
+
+      const cb = this.callbacks.forUser(userId);
+      const summary = this.messageFormatter.formatBookingSummary(wizard);
+      if (slots.length === 0) {
+        await editFlowMessage(this.bot, chatId, messageId, `${summary}\nNo tables are available then. Try another date or party size.`,
+          buildBookingSlotsKeyboard(cb, wizard.id, []));
+        return;
+      }
+      await editFlowMessage(this.bot, chatId, messageId, `${summary}\nPick a time (🏷️ = offer available):`,
+        buildBookingSlotsKeyboard(cb, wizard.id, slots));
+    } catch (err) {
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "dineout", err, "Dineout booking error");
+    }
+  }
+
+  private async book(userId: number, chatId: number, messageId: number, wizard: BookingWizard): Promise<void> {
+    if (!wizard.date || !wizard.guests || !wizard.slot) return;
+
+    // Claim the wizard before any await — this is the double-tap guard
+    wizard.status = "booking";
+    await editFlowMessage(this.bot, chatId, messageId, `${this.messageFormatter.formatBookingSummary(wizard)}\nBooking your table...`, []);
+
+    let client: Client;
+    let bookTool: DiscoveredTool | undefined;
+    try {
+      client = await this.mcpClientManager.getClient(userId, "dineout");
+      bookTool = await this.toolDiscovery.findToolForUser(userId, "dineout", client, BOOK_TOOL_PATTERNS);
+    } catch (err) {
+      wizard.status = "choosing";
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "dineout", err, "Dineout booking error");
+      return;
+    }
+    if (!bookTool) {
+      this.wizards.delete(userId);
+      await this.bot.sendMessage(chatId, "Table booking isn't available for your account right now.");
+      return;
+    }
+
+    try {
+      // Not retried: a retry after a lost response could book twice
+      const result = await this.toolInvoker.invoke(client, "dineout", bookTool.tool.name, this.buildArgs(userId, bookTool, wizard));
+      const text = result.content.filter((c) => c.type === "text").map((c) => c.text ?? "").join("\n");
+
+      if (result.isError) {
+        wizard.status = "choosing";
+        await this.bot.sendMessage(
+          chatId,
+          `Swiggy couldn't book this table.\n\n<b>Error:</b> <i>${this.messageFormatter.escapeHtml(text.substring(0, 500))}</i>`,
+          { parse_mode: "HTML", reply_markup: { inline_keyboard: buildBookingSlotsKeyboard(this.callbacks.forUser(userId), wizard.id, wizard.slots ?? []) } },
+        );
+        return;
+      }
+
+      wizard.status = "booked";
+      wizard.bookingId = this.extractBookingId(text);
+      logger.info("Dineout table booked", { userId, restaurantId: wizard.restaurantId, bookingId: wizard.bookingId });
+
+      let message = `✅ <b>Table booked!</b>\n\n${this.messageFormatter.formatBookingSummary(wizard)}`;
+      if (wizard.bookingId) message += `\nBooking ID: <code>${this.messageFormatter.escapeHtml(wizard.bookingId)}</code>`;
+      await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
+    } catch (err) {
+      // Outcome unknown — leave the wizard in "booking" so it can't be resubmitted
+      logger.error("Dineout booking outcome unknown", { userId, restaurantId: wizard.restaurantId, error: String(err) });
+      await this.bot.sendMessage(chatId, "Something went wrong while booking and I couldn't tell whether it went through. Please check the Swiggy app before trying again.");
+    }
+  }
+
+  /**
+   * Map the wizard's choices onto whatever the tool's inputSchema calls them.
+   */
+  private buildArgs(userId: number, tool: DiscoveredTool, wizard: BookingWizard): Record<string, unknown> {
+    const properties = tool.tool.inputSchema.properties ?? {};
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, "dineout");
+
+    for (const name of Object.keys(properties)) {
+      if (/restaurant_?id|^restaurant$|^id$/i.test(name)) args[name] = wizard.restaurantId;
+      else if (/^address_?id$/i.test(name) && addressId) args[name] = addressId;
+      else if (/date/i.test(name) && wizard.date) args[name] = wizard.date;
+      else if (/guest|party|people|pax|covers/i.test(name) && wizard.guests) args[name] = wizard.guests;
+      else if (/slot_?id/i.test(name) && wizard.slot?.id) args[name] = wizard.slot.id;
+      else if (/time|slot/i.test(name) && wizard.slot) args[name] = wizard.slot.time;
+    }
+
+    if (!Object.values(args).includes(wizard.restaurantId)) {
+      // Schema didn't name the restaurant parameter — use the common name
+      args.restaurantId = wizard.restaurantId;
+    }
+    return args;
+  }
+
+  private extractBookingId(text: string): string | undefined {
+    try {
+      const parsed = JSON.parse(text) as Record<string, unknown>;
+      const booking = (parsed.booking ?? parsed.data ?? parsed) as Record<string, unknown>;
+      const id = booking.bookingId ?? booking.booking_id ?? booking.reservationId ?? booking.id;
+      return id != null ? String(id) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
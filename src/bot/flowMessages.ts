@@ -0,0 +1,53 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { SwiggyService } from "../types/mcp.types.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { MESSAGES, SERVICE_LABELS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+type InlineKeyboard = TelegramBot.InlineKeyboardButton[][];
+
+/**
+ * Redraw a flow's message (menu, basket, booking wizard) in place.
+ */
+export async function editFlowMessage(
+  bot: TelegramBot,
+  chatId: number,
+  messageId: number,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  try {
+    await bot.editMessageText(text, {
+      chat_id: chatId,
+      message_id: messageId,
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  } catch (err) {
+    // Telegram rejects edits that don't change anything (e.g. tapping "Qty")
+    if (!String(err).includes("message is not modified")) throw err;
+  }
+}
+
+/**
+ * Answer a failed flow step: an expired login drops the cached client and
+ * asks the user to log in again; anything else is logged as `logMessage`.
+ */
+export async function replyWithFlowError(
+  bot: TelegramBot,
+  mcpClientManager: McpClientManager,
+  userId: number,
+  chatId: number,
+  service: SwiggyService,
+  err: unknown,
+  logMessage: string,
+): Promise<void> {
+  if (err instanceof AuthenticationRequiredError) {
+    mcpClientManager.invalidateClient(userId, service);
+    await bot.sendMessage(chatId, MESSAGES.AUTH_EXPIRED(SERVICE_LABELS[service]), { parse_mode: "HTML" });
+    return;
+  }
+  logger.error(logMessage, { userId, service, error: String(err) });
+  await bot.sendMessage(chatId, MESSAGES.ERROR_GENERIC);
+}
@@ -0,0 +1,436 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { BasketKind, BasketLine, BasketStatus, ProductMatch, GroceryBasket, RequestedItem } from "../types/basket.types.js";
+import type { CallbackData } from "../types/telegram.types.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { NluProvider } from "../nlu/nluProvider.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import { buildGroceryBasketKeyboard, buildViewCartKeyboard } from "./inlineKeyboards.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { editFlowMessage, replyWithFlowError } from "./flowMessages.js";
+import {
+  ADD_TO_CART_TOOL_PATTERNS,
+  GROCERY_BASKET_TTL_MS,
+  PRODUCT_SEARCH_TOOL_PATTERNS,
+  BASKET_CANDIDATES_PER_ITEM,
+  MAX_BASKET_ITEMS,
+  MAX_DISH_QUANTITY,
+  MESSAGES,
+  SERVICE_LABELS,
+} from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+export type BasketCallback = Extract<CallbackData, { basketId: string }>;
+
+const BASKET_CLOSED_MESSAGES: Record<Exclude<BasketStatus, "open">, string> = {
+  adding: "Already adding this basket to your cart...",
+  added: "This basket was already added to your cart.",
+  unknown: "I couldn't tell whether this basket was added. Please check your cart before adding it again.",
+};
+
+/**
+ * Reviewable Instamart baskets built from a recipe or a shopping list:
+ *
+ *   dish → ingredient list (NLU) ─┐
+ *   shopping list → parsed lines ─┴→ one product search per line,
+ *   in parallel → best product per line → one basket message
+ *
+ * Recipes pick the lowest price per gram / ml / piece; lists pick the pack
+ * size that best fits the quantity asked for. Swap cycles through the rest.
+ * Nothing reaches the cart until "Add all", which moves the basket out of
+ * "open" before its first await so a double-tap can't add everything twice.
+ */
+export class GroceryBasketBuilder {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private nlu: NluProvider;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+  private baskets: Map<number, GroceryBasket> = new Map();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    nlu: NluProvider,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.nlu = nlu;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Work out a dish's ingredients, match each to an Instamart product and
+   * send the basket for review.
+   */
+  async buildFromRecipe(userId: number, chatId: number, dish: string, servings: number): Promise<void> {
+    if (!this.sessionStore.isAuthenticated(userId, "instamart")) {
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS.instamart), { parse_mode: "HTML" });
+      return;
+    }
+
+    await this.bot.sendChatAction(chatId, "typing");
+    const ingredients = await this.nlu.listIngredients(dish, servings);
+    if (ingredients.length === 0) {
+      await this.bot.sendMessage(chatId, `I couldn't work out the ingredients for ${dish}. Try naming the dish differently.`);
+      return;
+    }
+
+    await this.present(userId, chatId, { kind: "recipe", title: dish, servings }, ingredients);
+  }
+
+  /**
+   * Match each line of a parsed shopping list to an Instamart product and
+   * send the list for review.
+   */
+  async buildFromList(userId: number, chatId: number, items: RequestedItem[]): Promise<void> {
+    if (!this.sessionStore.isAuthenticated(userId, "instamart")) {
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS.instamart), { parse_mode: "HTML" });
+      return;
+    }
+    if (items.length === 0) {
+      await this.bot.sendMessage(chatId, "I couldn't find any items in that list. Try something like \"2L milk, a dozen eggs and brown bread\".");
+      return;
+    }
+
+    await this.present(userId, chatId, { kind: "list", title: "Shopping list" }, items.slice(0, MAX_BASKET_ITEMS));
+  }
+
+  /**
+   * Throw away a basket that hasn't been added yet, e.g. after the delivery
+   * address changed and its products may not be sold there. Returns true if
+   * there was one.
+   */
+  discard(userId: number): boolean {
+    const basket = this.baskets.get(userId);
+    if (basket?.status !== "open") return false;
+    this.baskets.delete(userId);
+    return true;
+  }
+
+  /** Returns the number of baskets removed (zero or one), whatever their status. */
+  clearUser(userId: number): number {
+    return this.baskets.delete(userId) ? 1 : 0;
+  }
+
+  /**
+   * Handle a swap, remove / put back, or "Add all to cart" press.
+   */
+  async handleCallback(userId: number, chatId: number, messageId: number, data: BasketCallback): Promise<void> {
+    const basket = this.baskets.get(userId);
+    if (!basket || basket.id !== data.basketId || basket.expiresAt <= Date.now()) {
+      await this.bot.sendMessage(chatId, "This basket has expired. Send your recipe or list again to rebuild it.");
+      return;
+    }
+    if (basket.status !== "open") {
+      await this.bot.sendMessage(chatId, BASKET_CLOSED_MESSAGES[basket.status]);
+      return;
+    }
+    basket.expiresAt = Date.now() + GROCERY_BASKET_TTL_MS;
+
+    if (data.action === "basket_add") {
+      await this.addAll(userId, chatId, messageId, basket);
+      return;
+    }
+
+    const line = basket.lines[data.lineIdx];
+    if (!line || line.candidates.length === 0) return;
+
+    if (data.action === "basket_swap") {
+      line.choice = this.nextChoice(line);
+      line.packs = this.packsNeeded(line.request, line.candidates[line.choice]);
+    } else {
+      line.removed = !line.removed;
+    }
+
+    await editFlowMessage(this.bot, chatId, messageId, this.messageFormatter.formatGroceryBasket(basket),
+      buildGroceryBasketKeyboard(this.callbacks.forUser(userId), basket));
+  }
+
+  /**
+   * Search for every item in parallel and send the resulting basket.
+   */
+  private async present(
+    userId: number,
+    chatId: number,
+    header: Pick<GroceryBasket, "kind" | "title" | "servings">,
+    items: RequestedItem[],
+  ): Promise<void> {
+    await this.bot.sendChatAction(chatId, "typing");
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, "instamart");
+      const searchTool = await this.toolDiscovery.findToolForUser(userId, "instamart", client, PRODUCT_SEARCH_TOOL_PATTERNS);
+      if (!searchTool) {
+        await this.bot.sendMessage(chatId, "Product search isn't available for your account right now.");
+        return;
+      }
+
+      const lines = await Promise.all(
+        items.map((item) => this.matchItem(userId, client, searchTool, header.kind, item)),
+      );
+
+      const basket: GroceryBasket = {
+        id: crypto.randomUUID().replace(/-/g, "").substring(0, 8),
+        ...header,
+        lines,
+        status: "open",
+        expiresAt: Date.now() + GROCERY_BASKET_TTL_MS,
+      };
+      this.baskets.set(userId, basket);
+
+      logger.info("Built grocery basket", {
+        userId,
+        kind: basket.kind,
+        title: basket.title,
+        items: lines.length,
+        matched: lines.filter((l) => l.candidates.length > 0).length,
+      });
+
+      await this.bot.sendMessage(chatId, this.messageFormatter.formatGroceryBasket(basket), {
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: buildGroceryBasketKeyboard(this.callbacks.forUser(userId), basket) },
+      });
+    } catch (err) {
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "instamart", err, "Recipe basket error");
+    }
+  }
+
+  private async matchItem(
+    userId: number,
+    client: Client,
+    searchTool: DiscoveredTool,
+    kind: BasketKind,
+    request: RequestedItem,
+  ): Promise<BasketLine> {
+    const line: BasketLine = { request, candidates: [], choice: 0, packs: 1, removed: false };
+    try {
+      const args = this.buildSearchArgs(userId, searchTool, request.name);
+      const result = await this.toolInvoker.invokeWithRetry(client, "instamart", searchTool.tool.name, args);
+      const products = (result.isError ? null : this.resultFilter.parseProducts(result)) ?? [];
+      const candidates = products.slice(0, BASKET_CANDIDATES_PER_ITEM);
+      line.candidates = kind === "list" ? this.rankByFit(request, candidates) : this.rankByUnitPrice(request, candidates);
+    } catch (err) {
+      // An expired session fails every search the same way — let present() report it once
+      if (err instanceof AuthenticationRequiredError) throw err;
+      logger.warn("Basket item search failed", { userId, item: request.name, error: String(err) });
+    }
+    if (line.candidates.length > 0) line.packs = this.packsNeeded(request, line.candidates[0]);
+    return line;
+  }
+
+  /**
+   * Recipes: in-stock first, then cheapest per gram / ml / piece in the
+   * ingredient's unit, then cheapest overall. Keeps search order otherwise.
+   */
+  private rankByUnitPrice(request: RequestedItem, products: ProductMatch[]): ProductMatch[] {
+    const need = this.resultFilter.parsePackSize(`${request.quantity} ${request.unit}`);
+    const base = need?.base ?? products.find((p) => p.pack)?.pack?.base;
+
+    const unitPrice = (p: ProductMatch): number =>
+      p.price != null && p.pack && p.pack.base === base ? p.price / p.pack.amount : Infinity;
+
+    return [...products].sort((a, b) => {
+      if (a.inStock !== b.inStock) return a.inStock ? -1 : 1;
+      const byUnit = unitPrice(a) - unitPrice(b);
+      if (!isNaN(byUnit) && byUnit !== 0) return byUnit;
+      return (a.price ?? Infinity) - (b.price ?? Infinity) || 0;
+    });
+  }
+
+  /**
+   * Shopping lists: in-stock first, then the pack size that covers the
+   * requested quantity with the least left over, then cheapest for that
+   * quantity. "2L milk" prefers one 2 L pack or two 1 L packs over a 5 L tin.
+   */
+  private rankByFit(request: RequestedItem, products: ProductMatch[]): ProductMatch[] {
+    const need = this.resultFilter.parsePackSize(`${request.quantity} ${request.unit}`);
+
+    const surplus = (p: ProductMatch): number =>
+      need && p.pack && p.pack.base === need.base ? this.packsNeeded(request, p) * p.pack.amount - need.amount : Infinity;
+    const cost = (p: ProductMatch): number =>
+      p.price != null ? p.price * this.packsNeeded(request, p) : Infinity;
+
+    return [...products].sort((a, b) => {
+      if (a.inStock !== b.inStock) return a.inStock ? -1 : 1;
+      const byFit = surplus(a) - surplus(b);
+      if (!isNaN(byFit) && byFit !== 0) return byFit;
+      return cost(a) - cost(b) || 0;
+    });
+  }
+
+  /** Next candidate after the current one, skipping out-of-stock products when possible */
+  private nextChoice(line: BasketLine): number {
+    const count = line.candidates.length;
+    for (let step = 1; step < count; step++) {
+      const idx = (line.choice + step) % count;
+      if (line.candidates[idx].inStock) return idx;
+    }
+    return (line.choice + 1) % count;
+  }
+
+  private packsNeeded(request: RequestedItem, product: ProductMatch): number {
+    if (request.unit === "pack") return this.clampPacks(request.quantity);
+    const need = this.resultFilter.parsePackSize(`${request.quantity} ${request.unit}`);
+    if (!need || !product.pack || need.base !== product.pack.base) return 1;
+    return this.clampPacks(need.amount / product.pack.amount);
+  }
+
+  private clampPacks(packs: number): number {
+    // Tiny rounding errors ("0.3 kg" of 100 g packs) shouldn't add a pack
+    return Math.min(MAX_DISH_QUANTITY, Math.max(1, Math.ceil(packs - 1e-9)));
+  }
+
+  private async addAll(userId: number, chatId: number, messageId: number, basket: GroceryBasket): Promise<void> {
+    const picks = basket.lines
+      .filter((line) => !line.removed && line.candidates[line.choice]?.inStock)
+      .map((line) => ({ product: line.candidates[line.choice], quantity: line.packs }));
+    if (picks.length === 0) return;
+
+    // Claim the basket before any await — this is the double-tap guard
+    basket.status = "adding";
+    await editFlowMessage(this.bot, chatId, messageId, this.messageFormatter.formatGroceryBasket(basket), []);
+
+    let client: Client;
+    let cartTool: DiscoveredTool | undefined;
+    try {
+      client = await this.mcpClientManager.getClient(userId, "instamart");
+      cartTool = await this.toolDiscovery.findToolForUser(userId, "instamart", client, ADD_TO_CART_TOOL_PATTERNS);
+    } catch (err) {
+      basket.status = "open";
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "instamart", err, "Recipe basket error");
+      return;
+    }
+    if (!cartTool) {
+      basket.status = "open";
+      await this.bot.sendMessage(chatId, "Adding to cart isn't available for your account right now.");
+      return;
+    }
+
+    const properties = (cartTool.tool.inputSchema.properties ?? {}) as Record<string, { type?: string }>;
+    const batches = properties.items?.type === "array" ? [picks] : picks.map((pick) => [pick]);
+    const failed: string[] = [];
+    const unknown: string[] = [];
+    let added = 0;
+
+    // One call when the tool takes a list, otherwise one line at a time
+    for (const batch of batches) {
+      try {
+        const args = this.buildCartArgs(userId, cartTool, batch);
+        // No retry: if the response was lost, a second add would double the line
+        const result = await this.toolInvoker.invoke(client, "instamart", cartTool.tool.name, args);
+        if (result.isError) {
+          failed.push(...batch.map((pick) => pick.product.name));
+        } else {
+          added += batch.length;
+        }
+      } catch (err) {
+        if (err instanceof AuthenticationRequiredError && added === 0 && unknown.length === 0) {
+          basket.status = "open";
+          await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "instamart", err, "Recipe basket error");
+          return;
+        }
+        // The call may have reached Swiggy before it threw
+        logger.warn("Adding basket line outcome unknown", { userId, error: String(err) });
+        unknown.push(...batch.map((pick) => pick.product.name));
+      }
+    }
+
+    // Only reopen when every call came back refused — otherwise a re-tap could add lines twice
+    basket.status = added > 0 ? "added" : unknown.length > 0 ? "unknown" : "open";
+    logger.info("Added grocery basket to cart", { userId, title: basket.title, added, failed: failed.length, unknown: unknown.length });
+
+    const cb = this.callbacks.forUser(userId);
+    if (basket.status === "open") {
+      await editFlowMessage(this.bot, chatId, messageId, this.messageFormatter.formatGroceryBasket(basket), buildGroceryBasketKeyboard(cb, basket));
+      await this.bot.sendMessage(chatId, "Swiggy couldn't add these items to your cart. Please try again.");
+      return;
+    }
+
+    const names = (list: string[]) => list.map((name) => this.messageFormatter.escapeHtml(name)).join(", ");
+    let message = added > 0
+      ? `✅ Added ${added} ${added === 1 ? "item" : "items"} for <b>${this.messageFormatter.escapeHtml(basket.title)}</b> to your Instamart cart.`
+      : `⚠️ Something went wrong while adding <b>${this.messageFormatter.escapeHtml(basket.title)}</b> to your cart.`;
+    if (failed.length > 0) {
+      message += `\n\nCouldn't add: ${names(failed)}`;
+    }
+    if (unknown.length > 0) {
+      message += `\n\nI couldn't tell whether these went in — check your cart before adding them again: ${names(unknown)}`;
+    }
+    await this.bot.sendMessage(chatId, message, {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: buildViewCartKeyboard(cb, "instamart") },
+    });
+  }
+
+  private buildSearchArgs(userId: number, tool: DiscoveredTool, query: string): Record<string, unknown> {
+    const properties = tool.tool.inputSchema.properties ?? {};
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, "instamart");
+
+    for (const name of Object.keys(properties)) {
+      if (/query|search|keyword|term|^q$/i.test(name)) args[name] = query;
+      else if (/^address_?id$/i.test(name) && addressId) args[name] = addressId;
+    }
+
+    if (!Object.values(args).includes(query)) {
+      // Schema didn't name the query parameter — use the common name
+      args.query = query;
+    }
+    return args;
+  }
+
+  /**
+   * Map the picked products onto the cart tool's inputSchema. Tools that
+   * take an `items` array get every pick in one call.
+   */
+  private buildCartArgs(
+    userId: number,
+    tool: DiscoveredTool,
+    picks: Array<{ product: ProductMatch; quantity: number }>,
+  ): Record<string, unknown> {
+    const properties = (tool.tool.inputSchema.properties ?? {}) as Record<string, { type?: string; items?: { properties?: Record<string, unknown> } }>;
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, "instamart");
+
+    if (properties.items?.type === "array") {
+      const itemKeys = Object.keys(properties.items.items?.properties ?? {});
+      const idKey = itemKeys.find((key) => /(product|item|sku|variant|spin)_?id$/i.test(key)) ?? "productId";
+      const quantityKey = itemKeys.find((key) => /^(quantity|qty)$/i.test(key)) ?? "quantity";
+      args.items = picks.map((pick) => ({ [idKey]: pick.product.id, [quantityKey]: pick.quantity }));
+    } else {
+      const [pick] = picks;
+      for (const name of Object.keys(properties)) {
+        if (/(product|item|sku|variant|spin)_?id$/i.test(name)) args[name] = pick.product.id;
+        else if (/^(quantity|qty)$/i.test(name)) args[name] = pick.quantity;
+      }
+      if (!Object.values(args).includes(pick.product.id)) args.productId = pick.product.id;
+    }
+
+    for (const name of Object.keys(properties)) {
+      if (/^address_?id$/i.test(name) && addressId) args[name] = addressId;
+    }
+    return args;
+  }
+}
@@ -1,13 +1,27 @@
 import type { SwiggyService } from "../types/mcp.types.js";
+import type { MenuCategory, MenuItem, Favourite, PastOrder } from "../types/order.types.js";
+import type { DineoutSlot } from "../types/dineout.types.js";
+import type { GroceryBasket } from "../types/basket.types.js";
+import type { SavedAddress } from "../types/user.types.js";
+import type { CallbackTokenIssuer } from "./callbackRegistry.js";
+import {
+  MAX_MENU_BUTTONS,
+  MAX_DISH_QUANTITY,
+  MAX_RESULTS_PER_MESSAGE,
+  DINEOUT_BOOKING_DAYS,
+  DINEOUT_PARTY_SIZES,
+  DINEOUT_TIMEZONE,
+  SERVICE_LABELS,
+} from "../config/constants.js";
 
 type InlineButton = { text: string; callback_data?: string; url?: string };
 type InlineKeyboard = InlineButton[][];
 
-export function buildLoginKeyboard(): InlineKeyboard {
+export function buildLoginKeyboard(cb: CallbackTokenIssuer): InlineKeyboard {
   return [
-    [{ text: "🍔 Food", callback_data: "login:food" }],
-    [{ text: "🛒 Instamart", callback_data: "login:instamart" }],
-    [{ text: "🍽️ Dineout", callback_data: "login:dineout" }],
+    [{ text: "🍔 Food", callback_data: cb.issue({ action: "login", service: "food" }) }],
+    [{ text: "🛒 Instamart", callback_data: cb.issue({ action: "login", service: "instamart" }) }],
+    [{ text: "🍽️ Dineout", callback_data: cb.issue({ action: "login", service: "dineout" }) }],
   ];
 }
 
@@ -15,28 +29,278 @@ export function buildAuthLinkKeyboard(url: string, service: SwiggyService): Inli
   return [[{ text: `Login to ${service}`, url }]];
 }
 
-export function buildConfirmCheckoutKeyboard(service: SwiggyService): InlineKeyboard {
+export function buildRetryLoginKeyboard(cb: CallbackTokenIssuer, service: SwiggyService): InlineKeyboard {
+  return [[{ text: "🔁 Get a new login link", callback_data: cb.issue({ action: "login", service }) }]];
+}
+
+export function buildDeleteDataKeyboard(cb: CallbackTokenIssuer): InlineKeyboard {
   return [
     [
-      { text: "✅ Confirm Order (COD)", callback_data: `checkout:${service}:confirm` },
-      { text: "❌ Cancel", callback_data: `checkout:${service}:cancel` },
+      { text: "🗑️ Delete everything", callback_data: cb.issue({ action: "delete_data", confirm: true }) },
+      { text: "❌ Cancel", callback_data: cb.issue({ action: "delete_data", confirm: false }) },
     ],
   ];
 }
 
-export function buildPaginationKeyboard(
+/**
+ * One row per result on the given page: the result itself, then ⭐ to save
+ * it as a favourite when it has an id to reorder by. Food results open the
+ * restaurant's menu; other services select the item.
+ */
+export function buildResultKeyboard(
+  cb: CallbackTokenIssuer,
+  service: SwiggyService,
+  items: Record<string, unknown>[],
+  page: number = 0,
+): InlineKeyboard {
+  const offset = page * MAX_RESULTS_PER_MESSAGE;
+  return items.slice(offset, offset + MAX_RESULTS_PER_MESSAGE).map((item, i) => {
+    const idx = offset + i;
+    const name = String(item.name ?? item.restaurantName ?? item.productName ?? `Item ${idx + 1}`);
+    const realId = item.id ?? item.restaurantId ?? item.productId;
+    const id = String(realId ?? idx);
+    const price = typeof item.price === "number" ? item.price : undefined;
+    const data = service === "instamart"
+      ? cb.issue({ action: "select_item", service, itemId: id })
+      : cb.issue({ action: "select_restaurant", service, restaurantId: id, name });
+    const row: InlineButton[] = [{ text: `${idx + 1}. ${name.substring(0, 25)}`, callback_data: data }];
+    // A list position means nothing once the search is gone, so it can't be saved
+    if (realId != null && realId !== "") {
+      const save = cb.issue({
+        action: "save_favourite",
+        favourite: { service, kind: service === "instamart" ? "item" : "restaurant", targetId: String(realId), name, price },
+      });
+      row.push({ text: "⭐ Save", callback_data: save });
+    }
+    return row;
+  });
+}
+
+export function buildConfirmCheckoutKeyboard(
+  cb: CallbackTokenIssuer,
   service: SwiggyService,
+  checkoutId: string,
+): InlineKeyboard {
+  return [
+    [
+      { text: "✅ Confirm Order (COD)", callback_data: cb.issue({ action: "confirm_order", service, checkoutId }) },
+      { text: "❌ Cancel", callback_data: cb.issue({ action: "cancel_order", service, checkoutId }) },
+    ],
+  ];
+}
+
+export function buildMenuCategoriesKeyboard(
+  cb: CallbackTokenIssuer,
+  menuId: string,
+  categories: MenuCategory[],
+  restaurant: { id: string; name: string },
+): InlineKeyboard {
+  const rows: InlineKeyboard = [];
+  categories.slice(0, MAX_MENU_BUTTONS).forEach((category, idx) => {
+    const button = {
+      text: `${category.name.substring(0, 28)} (${category.items.length})`,
+      callback_data: cb.issue({ action: "menu_category", menuId, categoryIdx: idx }),
+    };
+    // Two categories per row keeps long menus compact
+    if (idx % 2 === 0) rows.push([button]);
+    else rows[rows.length - 1].push(button);
+  });
+  rows.push([{
+    text: "⭐ Save restaurant",
+    callback_data: cb.issue({
+      action: "save_favourite",
+      favourite: { service: "food", kind: "restaurant", targetId: restaurant.id, name: restaurant.name },
+    }),
+  }]);
+  return rows;
+}
+
+export function buildMenuItemsKeyboard(
+  cb: CallbackTokenIssuer,
+  menuId: string,
+  categoryIdx: number,
+  items: MenuItem[],
+): InlineKeyboard {
+  const rows: InlineKeyboard = items.slice(0, MAX_MENU_BUTTONS).map((item, idx) => [
+    {
+      text: `${item.inStock ? "" : "🚫 "}${item.name.substring(0, 30)}${item.price != null ? ` · ₹${item.price}` : ""}`,
+      callback_data: cb.issue({ action: "menu_dish", menuId, categoryIdx, itemIdx: idx, quantity: 1 }),
+    },
+  ]);
+  rows.push([{ text: "⬅️ Categories", callback_data: cb.issue({ action: "menu_home", menuId }) }]);
+  return rows;
+}
+
+export function buildDishKeyboard(
+  cb: CallbackTokenIssuer,
+  menuId: string,
+  categoryIdx: number,
+  itemIdx: number,
+  quantity: number,
+  item: MenuItem,
+  restaurantId: string,
+): InlineKeyboard {
+  const dish = { menuId, categoryIdx, itemIdx };
+  const rows: InlineKeyboard = [];
+  if (item.inStock) {
+    rows.push([
+      { text: "➖", callback_data: cb.issue({ action: "menu_dish", ...dish, quantity: Math.max(1, quantity - 1) }) },
+      { text: `Qty ${quantity}`, callback_data: cb.issue({ action: "menu_dish", ...dish, quantity }) },
+      { text: "➕", callback_data: cb.issue({ action: "menu_dish", ...dish, quantity: Math.min(MAX_DISH_QUANTITY, quantity + 1) }) },
+    ]);
+    rows.push([{ text: `🛒 Add ${quantity} to cart`, callback_data: cb.issue({ action: "add_to_cart", ...dish, quantity }) }]);
+  }
+  rows.push([
+    { text: "⬅️ Back", callback_data: cb.issue({ action: "menu_category", menuId, categoryIdx }) },
+    {
+      text: "⭐ Save",
+      callback_data: cb.issue({
+        action: "save_favourite",
+        favourite: { service: "food", kind: "item", targetId: item.id, name: item.name, restaurantId, price: item.price },
+      }),
+    },
+  ]);
+  return rows;
+}
+
+export function buildViewCartKeyboard(cb: CallbackTokenIssuer, service: SwiggyService): InlineKeyboard {
+  return [[{ text: "🧾 View cart & checkout", callback_data: cb.issue({ action: "view_cart", service }) }]];
+}
+
+export function buildPaginationKeyboard(
+  cb: CallbackTokenIssuer,
+  resultsId: string,
   currentPage: number,
   hasMore: boolean,
 ): InlineKeyboard {
   const buttons: InlineButton[] = [];
 
   if (currentPage > 0) {
-    buttons.push({ text: "⬅️ Previous", callback_data: `page:${service}:${currentPage - 1}` });
+    buttons.push({ text: "⬅️ Previous", callback_data: cb.issue({ action: "page", resultsId, page: currentPage - 1 }) });
   }
   if (hasMore) {
-    buttons.push({ text: "Next ➡️", callback_data: `page:${service}:${currentPage + 1}` });
+    buttons.push({ text: "Next ➡️", callback_data: cb.issue({ action: "page", resultsId, page: currentPage + 1 }) });
   }
 
   return buttons.length > 0 ? [buttons] : [];
 }
+
+/**
+ * Date chips for the next DINEOUT_BOOKING_DAYS days, in the restaurant's
+ * timezone rather than the server's.
+ */
+export function buildBookingDateKeyboard(cb: CallbackTokenIssuer, wizardId: string, now: Date = new Date()): InlineKeyboard {
+  const isoDate = new Intl.DateTimeFormat("en-CA", { timeZone: DINEOUT_TIMEZONE });
+  const label = new Intl.DateTimeFormat("en-IN", { timeZone: DINEOUT_TIMEZONE, weekday: "short", day: "numeric", month: "short" });
+
+  const rows: InlineKeyboard = [];
+  for (let day = 0; day < DINEOUT_BOOKING_DAYS; day++) {
+    const date = new Date(now.getTime() + day * 86400000);
+    const text = day === 0 ? "Today" : day === 1 ? "Tomorrow" : label.format(date);
+    const button = { text, callback_data: cb.issue({ action: "book_date", wizardId, date: isoDate.format(date) }) };
+    if (day % 3 === 0) rows.push([button]);
+    else rows[rows.length - 1].push(button);
+  }
+  rows.push([{ text: "❌ Cancel", callback_data: cb.issue({ action: "book_cancel", wizardId }) }]);
+  return rows;
+}
+
+export function buildBookingGuestsKeyboard(cb: CallbackTokenIssuer, wizardId: string): InlineKeyboard {
+  const rows: InlineKeyboard = [];
+  DINEOUT_PARTY_SIZES.forEach((guests, idx) => {
+    const button = { text: `👥 ${guests}`, callback_data: cb.issue({ action: "book_guests", wizardId, guests }) };
+    if (idx % 4 === 0) rows.push([button]);
+    else rows[rows.length - 1].push(button);
+  });
+  rows.push([{ text: "⬅️ Change date", callback_data: cb.issue({ action: "book_back", wizardId, step: "date" }) }]);
+  return rows;
+}
+
+export function buildBookingSlotsKeyboard(cb: CallbackTokenIssuer, wizardId: string, slots: DineoutSlot[]): InlineKeyboard {
+  const rows: InlineKeyboard = [];
+  slots.slice(0, MAX_MENU_BUTTONS).forEach((slot, idx) => {
+    const button = {
+      text: `${slot.time}${slot.offer ? " 🏷️" : ""}`,
+      callback_data: cb.issue({ action: "book_slot", wizardId, slotIdx: idx }),
+    };
+    if (idx % 3 === 0) rows.push([button]);
+    else rows[rows.length - 1].push(button);
+  });
+  rows.push([{ text: "⬅️ Change guests", callback_data: cb.issue({ action: "book_back", wizardId, step: "guests" }) }]);
+  return rows;
+}
+
+export function buildBookingConfirmKeyboard(cb: CallbackTokenIssuer, wizardId: string): InlineKeyboard {
+  return [
+    [
+      { text: "✅ Confirm booking", callback_data: cb.issue({ action: "book_confirm", wizardId }) },
+      { text: "❌ Cancel", callback_data: cb.issue({ action: "book_cancel", wizardId }) },
+    ],
+    [{ text: "⬅️ Pick another time", callback_data: cb.issue({ action: "book_back", wizardId, step: "slots" }) }],
+  ];
+}
+
+/**
+ * Per-line swap / remove buttons for a recipe basket, then "Add all".
+ * Lines with nothing found on Instamart get no buttons.
+ */
+export function buildGroceryBasketKeyboard(cb: CallbackTokenIssuer, basket: GroceryBasket): InlineKeyboard {
+  const basketId = basket.id;
+  const rows: InlineKeyboard = [];
+  basket.lines.forEach((line, lineIdx) => {
+    if (line.candidates.length === 0) return;
+    const label = `${lineIdx + 1}. ${line.request.name.substring(0, 22)}`;
+    const toggle = cb.issue({ action: "basket_toggle", basketId, lineIdx });
+    if (line.removed) {
+      rows.push([{ text: `↩️ Put back ${label}`, callback_data: toggle }]);
+    } else if (line.candidates.length > 1) {
+      rows.push([
+        { text: `🔄 ${label}`, callback_data: cb.issue({ action: "basket_swap", basketId, lineIdx }) },
+        { text: "✖️", callback_data: toggle },
+      ]);
+    } else {
+      rows.push([{ text: `✖️ ${label}`, callback_data: toggle }]);
+    }
+  });
+  if (basket.lines.some((line) => !line.removed && line.candidates[line.choice]?.inStock)) {
+    rows.push([{ text: "🛒 Add all to cart", callback_data: cb.issue({ action: "basket_add", basketId }) }]);
+  }
+  return rows;
+}
+
+/**
+ * /reorder: one button per past order, then one per favourite with a 🗑️
+ * to forget it.
+ */
+export function buildReorderKeyboard(cb: CallbackTokenIssuer, orders: PastOrder[], favourites: Favourite[]): InlineKeyboard {
+  const rows: InlineKeyboard = orders.map((order, idx) => [{
+    text: `🔁 ${idx + 1}. ${(order.restaurantName ?? SERVICE_LABELS[order.service]).substring(0, 24)}`,
+    callback_data: cb.issue({ action: "reorder", orderId: order.id }),
+  }]);
+  for (const favourite of favourites.slice(0, MAX_MENU_BUTTONS)) {
+    rows.push([
+      { text: `⭐ ${favourite.name.substring(0, 28)}`, callback_data: cb.issue({ action: "reorder_favourite", favouriteId: favourite.id }) },
+      { text: "🗑️", callback_data: cb.issue({ action: "remove_favourite", favouriteId: favourite.id }) },
+    ]);
+  }
+  return rows;
+}
+
+/**
+ * One button per saved address; the active one is ticked.
+ */
+export function buildAddressKeyboard(
+  cb: CallbackTokenIssuer,
+  service: SwiggyService,
+  addresses: SavedAddress[],
+  activeId?: string,
+): InlineKeyboard {
+  return addresses.slice(0, MAX_MENU_BUTTONS).map((address) => {
+    let text = `${address.id === activeId ? "✅" : "📍"} ${address.label}`;
+    if (address.line) text += ` · ${address.line}`;
+    return [{
+      text: text.length > 48 ? `${text.substring(0, 47)}…` : text,
+      callback_data: cb.issue({ action: "select_address", service, address }),
+    }];
+  });
+}
@@ -0,0 +1,252 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { MenuItem, MenuSession } from "../types/order.types.js";
+import type { CallbackData } from "../types/telegram.types.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import {
+  buildMenuCategoriesKeyboard,
+  buildMenuItemsKeyboard,
+  buildDishKeyboard,
+  buildViewCartKeyboard,
+} from "./inlineKeyboards.js";
+import { editFlowMessage, replyWithFlowError } from "./flowMessages.js";
+import {
+  ADD_TO_CART_TOOL_PATTERNS,
+  MENU_SESSION_TTL_MS,
+  MENU_TOOL_PATTERNS,
+  MAX_DISH_QUANTITY,
+  MESSAGES,
+  SERVICE_LABELS,
+} from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+export type MenuCallback = Extract<CallbackData, { menuId: string }>;
+
+/**
+ * Browse a Swiggy Food restaurant's menu from a search result button:
+ * categories → dishes → dish card with quantity and "Add to cart".
+ *
+ * Navigation edits the menu message in place. The parsed menu is kept per
+ * user for MENU_SESSION_TTL_MS so drilling down doesn't re-fetch it.
+ */
+export class MenuBrowser {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+  private menus: Map<number, MenuSession> = new Map();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Fetch a restaurant's menu and send its categories as a new message.
+   */
+  async open(userId: number, chatId: number, restaurantId: string): Promise<void> {
+    if (!this.sessionStore.isAuthenticated(userId, "food")) {
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS.food), { parse_mode: "HTML" });
+      return;
+    }
+
+    await this.bot.sendChatAction(chatId, "typing");
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, "food");
+      const menuTool = await this.toolDiscovery.findToolForUser(userId, "food", client, MENU_TOOL_PATTERNS);
+      if (!menuTool) {
+        await this.bot.sendMessage(chatId, "Menu browsing isn't available for your account right now.");
+        return;
+      }
+
+      const args = this.buildArgs(userId, menuTool, { restaurantId });
+      const result = await this.toolInvoker.invokeWithRetry(client, "food", menuTool.tool.name, args);
+      const menu = result.isError ? null : this.resultFilter.parseMenu(result);
+      if (!menu || menu.categories.length === 0) {
+        logger.warn("Menu tool returned no usable menu", { userId, restaurantId, isError: result.isError });
+        await this.bot.sendMessage(chatId, "I couldn't load this restaurant's menu. Please try again later.");
+        return;
+      }
+
+      const session: MenuSession = {
+        id: crypto.randomUUID().replace(/-/g, "").substring(0, 8),
+        restaurantId,
+        restaurantName: menu.restaurantName ?? "Menu",
+        categories: menu.categories,
+        expiresAt: Date.now() + MENU_SESSION_TTL_MS,
+      };
+      this.menus.set(userId, session);
+
+      await this.bot.sendMessage(
+        chatId,
+        this.messageFormatter.formatMenuCategories(session.restaurantName, session.categories),
+        { parse_mode: "HTML", reply_markup: { inline_keyboard: buildMenuCategoriesKeyboard(this.callbacks.forUser(userId), session.id, session.categories, { id: restaurantId, name: session.restaurantName }) } },
+      );
+    } catch (err) {
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "food", err, "Menu browsing error");
+    }
+  }
+
+  /** Returns the number of open menus removed (zero or one). */
+  clearUser(userId: number): number {
+    return this.menus.delete(userId) ? 1 : 0;
+  }
+
+  /**
+   * Handle a menu navigation or add-to-cart button press.
+   */
+  async handleCallback(userId: number, chatId: number, messageId: number, data: MenuCallback): Promise<void> {
+    const session = this.menus.get(userId);
+    if (!session || session.id !== data.menuId || session.expiresAt <= Date.now()) {
+      await this.bot.sendMessage(chatId, "This menu has expired. Search for the restaurant again to reopen it.");
+      return;
+    }
+    session.expiresAt = Date.now() + MENU_SESSION_TTL_MS;
+
+    const cb = this.callbacks.forUser(userId);
+
+    if (data.action === "menu_home") {
+      await editFlowMessage(this.bot, chatId, messageId,
+        this.messageFormatter.formatMenuCategories(session.restaurantName, session.categories),
+        buildMenuCategoriesKeyboard(cb, session.id, session.categories, { id: session.restaurantId, name: session.restaurantName }));
+      return;
+    }
+
+    const category = session.categories[data.categoryIdx];
+    if (!category) return;
+
+    switch (data.action) {
+      case "menu_category":
+        await editFlowMessage(this.bot, chatId, messageId,
+          this.messageFormatter.formatMenuCategory(session.restaurantName, category),
+          buildMenuItemsKeyboard(cb, session.id, data.categoryIdx, category.items));
+        return;
+
+      case "menu_dish": {
+        const item = category.items[data.itemIdx];
+        if (!item) return;
+        const qty = this.clampQuantity(data.quantity);
+        await editFlowMessage(this.bot, chatId, messageId,
+          this.messageFormatter.formatDish(item, qty),
+          buildDishKeyboard(cb, session.id, data.categoryIdx, data.itemIdx, qty, item, session.restaurantId));
+        return;
+      }
+
+      case "add_to_cart": {
+        const item = category.items[data.itemIdx];
+        if (!item) return;
+        await this.addToCart(userId, chatId, session, item, this.clampQuantity(data.quantity));
+        return;
+      }
+    }
+  }
+
+  private async addToCart(userId: number, chatId: number, session: MenuSession, item: MenuItem, quantity: number): Promise<void> {
+    if (!item.inStock) {
+      await this.bot.sendMessage(chatId, `${item.name} is currently unavailable.`);
+      return;
+    }
+    // Dishes parsed without an id can't be added — the tool would guess or fail
+    if (!item.id) {
+      await this.bot.sendMessage(chatId, `I couldn't identify ${item.name} on the menu, so I can't add it. Try asking for it by name instead.`);
+      return;
+    }
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, "food");
+      const cartTool = await this.toolDiscovery.findToolForUser(userId, "food", client, ADD_TO_CART_TOOL_PATTERNS);
+      if (!cartTool) {
+        await this.bot.sendMessage(chatId, "Adding to cart isn't available for your account right now.");
+        return;
+      }
+
+      const args = this.buildArgs(userId, cartTool, { restaurantId: session.restaurantId, itemId: item.id, quantity });
+      // No retry: if the response was lost, a second add would double the dish
+      const result = await this.toolInvoker.invoke(client, "food", cartTool.tool.name, args);
+
+      if (result.isError) {
+        const errorText = result.content.filter((c) => c.type === "text").map((c) => c.text ?? "").join("\n");
+        await this.bot.sendMessage(
+          chatId,
+          `Couldn't add ${this.messageFormatter.escapeHtml(item.name)} to your cart.\n\n<b>Error:</b> <i>${this.messageFormatter.escapeHtml(errorText.substring(0, 300))}</i>`,
+          { parse_mode: "HTML" },
+        );
+        return;
+      }
+
+      logger.info("Added dish to cart", { userId, restaurantId: session.restaurantId, itemId: item.id, quantity });
+      await this.bot.sendMessage(
+        chatId,
+        `✅ Added ${quantity} × <b>${this.messageFormatter.escapeHtml(item.name)}</b> to your cart.`,
+        { parse_mode: "HTML", reply_markup: { inline_keyboard: buildViewCartKeyboard(this.callbacks.forUser(userId), "food") } },
+      );
+    } catch (err) {
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, "food", err, "Menu browsing error");
+    }
+  }
+
+  /**
+   * Map the values we have onto whatever the tool's inputSchema calls them.
+   * Cart tools that take an `items` array get a single line item.
+   */
+  private buildArgs(
+    userId: number,
+    tool: DiscoveredTool,
+    values: { restaurantId: string; itemId?: string; quantity?: number },
+  ): Record<string, unknown> {
+    const properties = (tool.tool.inputSchema.properties ?? {}) as Record<string, { type?: string }>;
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, "food");
+
+    for (const [name, schema] of Object.entries(properties)) {
+      if (/restaurant_?id|^restaurant$/i.test(name)) {
+        args[name] = values.restaurantId;
+      } else if (/^address_?id$/i.test(name) && addressId) {
+        args[name] = addressId;
+      } else if (values.itemId !== undefined && /(menu_?)?item_?id$/i.test(name)) {
+        args[name] = values.itemId;
+      } else if (values.quantity !== undefined && /^(quantity|qty)$/i.test(name)) {
+        args[name] = values.quantity;
+      } else if (values.itemId !== undefined && name === "items" && schema.type === "array") {
+        args[name] = [{ itemId: values.itemId, quantity: values.quantity ?? 1 }];
+      }
+    }
+
+    if (!Object.values(args).includes(values.restaurantId)) {
+      // Schema didn't name the restaurant parameter — use the common name
+      args[values.itemId === undefined && "id" in properties ? "id" : "restaurantId"] = values.restaurantId;
+    }
+    return args;
+  }
+
+  private clampQuantity(quantity: number): number {
+    if (!Number.isFinite(quantity)) return 1;
+    return Math.min(MAX_DISH_QUANTITY, Math.max(1, Math.floor(quantity)));
+  }
+}
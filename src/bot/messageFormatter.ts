@@ -1,7 +1,27 @@
-import type { FormattedMessage } from "../types/telegram.types.js";
+import type { FormattedMessage, ResultPageView } from "../types/telegram.types.js";
 import type { FilteredResult, SwiggyService } from "../types/mcp.types.js";
-import type { IntentCategory } from "../types/gemini.types.js";
-import { TELEGRAM_MAX_MESSAGE_LENGTH, MAX_RESULTS_PER_MESSAGE } from "../config/constants.js";
+import type { IntentCategory, AgentStep } from "../types/gemini.types.js";
+import type { CartSummary, MenuCategory, MenuItem, Favourite, PastOrder, ReorderReport, OrderStage, TrackedOrder } from "../types/order.types.js";
+import type { BookingWizard } from "../types/dineout.types.js";
+import type { GroceryBasket } from "../types/basket.types.js";
+import type { SavedAddress, SharedLocation } from "../types/user.types.js";
+import type { CallbackTokenIssuer } from "./callbackRegistry.js";
+import { buildResultKeyboard, buildPaginationKeyboard } from "./inlineKeyboards.js";
+import {
+  TELEGRAM_MAX_MESSAGE_LENGTH,
+  MAX_RESULTS_PER_MESSAGE,
+  MAX_MENU_BUTTONS,
+  SERVICE_LABELS,
+  DINEOUT_TIMEZONE,
+} from "../config/constants.js";
+
+// Progress shown in a tracked order's status message
+const ORDER_STAGES: Array<{ stage: OrderStage; label: string }> = [
+  { stage: "placed", label: "Order placed" },
+  { stage: "preparing", label: "Preparing" },
+  { stage: "out_for_delivery", label: "Out for delivery" },
+  { stage: "delivered", label: "Delivered" },
+];
 
 export class MessageFormatter {
   /**
@@ -12,14 +32,16 @@ export class MessageFormatter {
     intent: IntentCategory,
     result: FilteredResult,
     originalQuery: string,
+    cb: CallbackTokenIssuer,
+    view: ResultPageView = { page: 0 },
   ): FormattedMessage {
     switch (service) {
       case "food":
-        return this.formatFoodResults(result, originalQuery, intent);
+        return this.formatFoodResults(result, originalQuery, intent, cb, view);
       case "instamart":
-        return this.formatGroceryResults(result, originalQuery, intent);
+        return this.formatGroceryResults(result, originalQuery, intent, cb, view);
       case "dineout":
-        return this.formatDineoutResults(result, originalQuery, intent);
+        return this.formatDineoutResults(result, originalQuery, intent, cb, view);
       default:
         return this.formatGenericResults(result, originalQuery);
     }
@@ -29,6 +51,8 @@ export class MessageFormatter {
     result: FilteredResult,
     query: string,
     intent: IntentCategory,
+    cb: CallbackTokenIssuer,
+    view: ResultPageView,
   ): FormattedMessage {
     if (result.items.length === 0 || (result.items.length === 1 && result.items[0].raw)) {
       // Raw text result or no results
@@ -39,15 +63,9 @@ export class MessageFormatter {
       return this.noResultsMessage(query, result.filtersApplied);
     }
 
-    let text = "";
+    const text = this.formatSearchResults(result, query, "🍔", view);
 
-    if (intent === "food_view_cart") {
-      text = this.formatCartView(result, "food");
-    } else {
-      text = this.formatSearchResults(result, query, "🍔");
-    }
-
-    const buttons = this.buildResultButtons(result, "food");
+    const buttons = this.buildResultButtons(cb, "food", result, view);
 
     return {
       text: this.truncate(text),
@@ -60,6 +78,8 @@ export class MessageFormatter {
     result: FilteredResult,
     query: string,
     intent: IntentCategory,
+    cb: CallbackTokenIssuer,
+    view: ResultPageView,
   ): FormattedMessage {
     if (result.items.length === 0 || (result.items.length === 1 && result.items[0].raw)) {
       const raw = result.items[0]?.raw as string | undefined;
@@ -69,8 +89,8 @@ export class MessageFormatter {
       return this.noResultsMessage(query, result.filtersApplied);
     }
 
-    const text = this.formatSearchResults(result, query, "🛒");
-    const buttons = this.buildResultButtons(result, "instamart");
+    const text = this.formatSearchResults(result, query, "🛒", view);
+    const buttons = this.buildResultButtons(cb, "instamart", result, view);
 
     return {
       text: this.truncate(text),
@@ -83,6 +103,8 @@ export class MessageFormatter {
     result: FilteredResult,
     query: string,
     intent: IntentCategory,
+    cb: CallbackTokenIssuer,
+    view: ResultPageView,
   ): FormattedMessage {
     if (result.items.length === 0 || (result.items.length === 1 && result.items[0].raw)) {
       const raw = result.items[0]?.raw as string | undefined;
@@ -92,8 +114,8 @@ export class MessageFormatter {
       return this.noResultsMessage(query, result.filtersApplied);
     }
 
-    const text = this.formatSearchResults(result, query, "🍽️");
-    const buttons = this.buildResultButtons(result, "dineout");
+    const text = this.formatSearchResults(result, query, "🍽️", view);
+    const buttons = this.buildResultButtons(cb, "dineout", result, view);
 
     return {
       text: this.truncate(text),
@@ -106,21 +128,29 @@ export class MessageFormatter {
     result: FilteredResult,
     query: string,
     emoji: string,
+    view: ResultPageView,
   ): string {
+    const page = view.page;
     let text = `${emoji} Found <b>${result.totalAfterFilter}</b> results`;
     if (result.filtersApplied.length > 0) {
       text += ` (filtered from ${result.totalBeforeFilter})`;
     }
     text += `\n`;
 
+    if (view.deliveringTo) {
+      text += `📍 ${this.escapeHtml(view.deliveringTo)} <i>(change with /address)</i>\n`;
+    }
+
     if (result.filtersApplied.length > 0) {
       text += `<i>Filters: ${this.escapeHtml(result.filtersApplied.join(" | "))}</i>\n`;
     }
     text += "\n";
 
-    const displayItems = result.items.slice(0, MAX_RESULTS_PER_MESSAGE);
+    const offset = page * MAX_RESULTS_PER_MESSAGE;
+    const displayItems = result.items.slice(offset, offset + MAX_RESULTS_PER_MESSAGE);
 
-    displayItems.forEach((item, idx) => {
+    displayItems.forEach((item, i) => {
+      const idx = offset + i;
       const name = (item.name ?? item.restaurantName ?? item.productName ?? "Unknown") as string;
       const rating = item.rating ?? item.avgRating ?? item.stars;
       const price = item.price ?? item.cost ?? item.costForTwo ?? item.mrp;
@@ -153,32 +183,300 @@ export class MessageFormatter {
       text += "\n";
     });
 
-    if (result.items.length > MAX_RESULTS_PER_MESSAGE) {
-      text += `<i>... and ${result.items.length - MAX_RESULTS_PER_MESSAGE} more results</i>\n`;
+    const pages = this.pageCount(result);
+    if (pages > 1) {
+      text += `<i>Page ${page + 1} of ${pages}</i>\n`;
     }
 
     return text;
   }
 
-  private formatCartView(result: FilteredResult, service: string): string {
-    let text = `🛒 <b>Your ${service} cart:</b>\n\n`;
-    let total = 0;
+  pageCount(result: FilteredResult): number {
+    return Math.ceil(result.items.length / MAX_RESULTS_PER_MESSAGE);
+  }
 
-    result.items.forEach((item, idx) => {
-      const name = (item.name ?? item.itemName ?? "Item") as string;
-      const price = (item.price ?? item.cost ?? 0) as number;
-      const qty = (item.quantity ?? 1) as number;
+  private buildResultButtons(
+    cb: CallbackTokenIssuer,
+    service: SwiggyService,
+    result: FilteredResult,
+    view: ResultPageView,
+  ) {
+    const rows = buildResultKeyboard(cb, service, result.items, view.page);
+    if (view.resultsId) {
+      const hasMore = view.page + 1 < this.pageCount(result);
+      rows.push(...buildPaginationKeyboard(cb, view.resultsId, view.page, hasMore));
+    }
+    return rows;
+  }
+
+  /**
+   * Render a cart with the bill exactly as Swiggy computed it, for review
+   * before checkout.
+   */
+  formatCartBill(service: SwiggyService, cart: CartSummary): string {
+    let text = `🛒 <b>Your ${SERVICE_LABELS[service]} cart:</b>\n\n`;
 
-      text += `${idx + 1}. ${this.escapeHtml(String(name))} x${qty} — ₹${price}\n`;
-      total += price * qty;
+    cart.items.forEach((item, idx) => {
+      text += `${idx + 1}. ${this.escapeHtml(item.name)} x${item.quantity}`;
+      if (item.price != null) text += ` — ₹${item.price}`;
+      text += "\n";
     });
 
-    text += `\n<b>Total: ₹${total}</b>\n`;
+    if (cart.bill.length > 0) {
+      text += "\n";
+      for (const line of cart.bill) {
+        const amount = line.amount < 0 ? `−₹${Math.abs(line.amount)}` : `₹${line.amount}`;
+        text += `${this.escapeHtml(line.label)}: ${amount}\n`;
+      }
+    }
+
+    text += cart.total != null
+      ? `\n<b>To pay: ₹${cart.total}</b>\n`
+      : "\n<i>Swiggy didn't return a total for this cart.</i>\n";
     text += `\n⚠️ <i>Orders are COD only and cannot be cancelled once placed.</i>`;
 
+    return this.truncate(text);
+  }
+
+  formatMenuCategories(restaurantName: string, categories: MenuCategory[]): string {
+    let text = `📋 <b>${this.escapeHtml(restaurantName)}</b>\n\nPick a section of the menu:`;
+    if (categories.length > MAX_MENU_BUTTONS) {
+      text += `\n\n<i>Showing the first ${MAX_MENU_BUTTONS} of ${categories.length} sections.</i>`;
+    }
     return text;
   }
 
+  formatMenuCategory(restaurantName: string, category: MenuCategory): string {
+    let text = `📋 <b>${this.escapeHtml(restaurantName)}</b> › <b>${this.escapeHtml(category.name)}</b>\n\n`;
+
+    category.items.slice(0, MAX_MENU_BUTTONS).forEach((item, idx) => {
+      text += `${idx + 1}. ${this.vegMarker(item)}${this.escapeHtml(item.name)}`;
+      if (item.price != null) text += ` — ₹${item.price}`;
+      if (!item.inStock) text += " <i>(unavailable)</i>";
+      text += "\n";
+    });
+
+    if (category.items.length > MAX_MENU_BUTTONS) {
+      text += `\n<i>... and ${category.items.length - MAX_MENU_BUTTONS} more</i>\n`;
+    }
+    text += "\nTap a dish for details.";
+    return this.truncate(text);
+  }
+
+  formatDish(item: MenuItem, quantity: number): string {
+    let text = `${this.vegMarker(item)}<b>${this.escapeHtml(item.name)}</b>\n`;
+    if (item.price != null) text += `₹${item.price}\n`;
+    if (item.description) text += `\n<i>${this.escapeHtml(item.description.substring(0, 300))}</i>\n`;
+    if (!item.inStock) {
+      text += "\n🚫 Currently unavailable.";
+    } else if (item.price != null && quantity > 1) {
+      text += `\n${quantity} × ₹${item.price} = ₹${quantity * item.price}`;
+    }
+    return text;
+  }
+
+  /**
+   * The booking so far, headed by the restaurant. Shown above every step of
+   * the wizard and as the final confirmation summary.
+   */
+  formatBookingSummary(wizard: BookingWizard): string {
+    let text = `🍽️ <b>${this.escapeHtml(wizard.restaurantName)}</b>\n`;
+    if (wizard.date) text += `📅 ${this.formatBookingDate(wizard.date)}\n`;
+    if (wizard.slot) text += `🕐 ${this.escapeHtml(wizard.slot.time)}\n`;
+    if (wizard.guests) text += `👥 ${wizard.guests} ${wizard.guests === 1 ? "guest" : "guests"}\n`;
+    if (wizard.slot?.offer) text += `🏷️ ${this.escapeHtml(wizard.slot.offer)}\n`;
+    return text;
+  }
+
+  formatBookingDate(isoDate: string): string {
+    // Noon UTC keeps the calendar date stable when shown in the restaurant's timezone
+    return new Intl.DateTimeFormat("en-IN", {
+      timeZone: DINEOUT_TIMEZONE,
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+    }).format(new Date(`${isoDate}T12:00:00Z`));
+  }
+
+  /**
+   * One line per requested item with the product currently picked for it,
+   * and an estimated total over the lines that will be added.
+   */
+  formatGroceryBasket(basket: GroceryBasket): string {
+    let text = `🧺 <b>${this.escapeHtml(basket.title)}</b>`;
+    if (basket.servings) text += ` · ${basket.servings} ${basket.servings === 1 ? "serving" : "servings"}`;
+    text += "\n\n";
+    let total = 0;
+
+    basket.lines.forEach((line, idx) => {
+      const { request } = line;
+      const unit = request.unit === "pack" && request.quantity !== 1 ? "packs" : request.unit;
+      const need = `${request.quantity} ${unit}`;
+      if (line.removed) {
+        text += `${idx + 1}. <s>${this.escapeHtml(request.name)}</s> <i>(removed)</i>\n`;
+        return;
+      }
+
+      text += `${idx + 1}. <b>${this.escapeHtml(request.name)}</b> (${this.escapeHtml(need)})\n`;
+      const product = line.candidates[line.choice];
+      if (!product) {
+        text += "   <i>Not found on Instamart</i>\n";
+        return;
+      }
+
+      text += `   ${this.escapeHtml(product.name)}`;
+      if (product.packLabel && !product.name.includes(product.packLabel)) text += ` ${this.escapeHtml(product.packLabel)}`;
+      text += ` × ${line.packs}`;
+      if (product.price != null) text += ` — ₹${product.price * line.packs}`;
+      if (!product.inStock) text += " <i>(out of stock)</i>";
+      text += "\n";
+      if (product.inStock && product.price != null) total += product.price * line.packs;
+    });
+
+    text += `\n<b>Estimated total: ₹${total}</b>\n`;
+    text += "<i>Tap 🔄 to swap a product or ✖️ to leave it out. Final prices are shown in your cart.</i>";
+    return this.truncate(text);
+  }
+
+  formatReorderList(orders: PastOrder[], favourites: Favourite[]): string {
+    if (orders.length === 0 && favourites.length === 0) {
+      return "You haven't ordered or saved anything yet.\n\nTap <b>⭐ Save</b> under a search result or dish to add it to your favourites.";
+    }
+
+    let text = "🔁 <b>Reorder</b>\n";
+    if (orders.length > 0) {
+      text += "\n<b>Past orders</b>\n";
+      orders.forEach((order, idx) => {
+        const count = order.items.reduce((sum, item) => sum + item.quantity, 0);
+        text += `${idx + 1}. ${this.escapeHtml(order.restaurantName ?? SERVICE_LABELS[order.service])} · ${count} ${count === 1 ? "item" : "items"}`;
+        if (order.total != null) text += ` · ₹${order.total}`;
+        text += ` · ${this.formatShortDate(order.placedAt)}\n`;
+      });
+    }
+    if (favourites.length > 0) {
+      text += "\n<b>Favourites</b>\n";
+      for (const favourite of favourites.slice(0, MAX_MENU_BUTTONS)) {
+        const where = favourite.kind === "restaurant" ? `${SERVICE_LABELS[favourite.service]} restaurant` : SERVICE_LABELS[favourite.service];
+        text += `⭐ ${this.escapeHtml(favourite.name)} <i>(${where})</i>\n`;
+      }
+    }
+    text += "\nTap an order to add the same items to your cart again, or a favourite to open it.";
+    return this.truncate(text);
+  }
+
+  /**
+   * Outcome of re-adding a past order or favourite, flagging anything that
+   * is gone or costs something different now.
+   */
+  formatReorderReport(label: string, report: ReorderReport): string {
+    const added = report.added.length;
+    let text = added > 0
+      ? `✅ Added ${added} ${added === 1 ? "item" : "items"} from <b>${this.escapeHtml(label)}</b> to your cart.\n`
+      : `Nothing from <b>${this.escapeHtml(label)}</b> could be added to your cart.\n`;
+
+    if (report.unavailable.length > 0) {
+      text += "\n🚫 <b>No longer available:</b>\n";
+      for (const item of report.unavailable) text += `• ${this.escapeHtml(item.name)}\n`;
+    }
+    if (report.priceChanges.length > 0) {
+      text += "\n💱 <b>Price changed:</b>\n";
+      for (const { item, price } of report.priceChanges) {
+        text += `• ${this.escapeHtml(item.name)}: ₹${item.price} → ₹${price}\n`;
+      }
+    }
+    if (report.failed.length > 0) {
+      text += "\n⚠️ <b>Couldn't add:</b>\n";
+      for (const item of report.failed) text += `• ${this.escapeHtml(item.name)}\n`;
+    }
+    // Only items that made it into the cart are worth a warning
+    const unchecked = report.unchecked.filter((item) => report.added.includes(item));
+    if (unchecked.length > 0) {
+      text += "\n❔ <b>Added without checking availability:</b>\n";
+      for (const item of unchecked) text += `• ${this.escapeHtml(item.name)}\n`;
+    }
+    if (!report.checked) {
+      text += "\n<i>I couldn't check availability and prices first — review your cart before ordering.</i>";
+    }
+    return this.truncate(text);
+  }
+
+  /**
+   * Saved addresses for one service, marking the one searches and orders
+   * currently use.
+   */
+  formatAddressList(service: SwiggyService, addresses: SavedAddress[], activeId?: string, location?: SharedLocation): string {
+    let text = `📍 <b>${SERVICE_LABELS[service]} delivery address</b>\n\n`;
+    if (location) {
+      text += `Currently using a shared location: <b>${this.escapeHtml(location.label)}</b>.\n`;
+    }
+    if (addresses.length === 0) {
+      return text + "You don't have any saved addresses. Add one in the Swiggy app, or share a location here.";
+    }
+
+    const active = location ? undefined : addresses.find((address) => address.id === activeId);
+    if (active) text += `Currently using <b>${this.escapeHtml(active.label)}</b>.`;
+    else if (!location) text += "No address selected yet.";
+    text += " Tap an address to use it instead, or share a location 📎.";
+    return this.truncate(text);
+  }
+
+  /**
+   * The status message kept up to date while an order is tracked: a
+   * checklist of stages, Swiggy's own status text and ETA, and an optional
+   * closing note when tracking stops early.
+   */
+  formatOrderTracking(order: TrackedOrder, note?: string): string {
+    let text = `📦 <b>${SERVICE_LABELS[order.service]} order</b>`;
+    if (order.orderId) text += ` <code>${this.escapeHtml(order.orderId)}</code>`;
+    text += "\n\n";
+
+    if (order.stage === "cancelled") {
+      text += "❌ <b>Order cancelled</b>\n";
+    } else {
+      const current = ORDER_STAGES.findIndex(({ stage }) => stage === order.stage);
+      ORDER_STAGES.forEach(({ label }, idx) => {
+        if (idx < current || order.stage === "delivered") text += `✅ ${label}\n`;
+        else if (idx === current) text += `▶️ <b>${label}</b>\n`;
+        else text += `▫️ ${label}\n`;
+      });
+    }
+
+    if (order.statusText) text += `\n<i>${this.escapeHtml(order.statusText)}</i>\n`;
+    if (order.eta && order.stage !== "delivered" && order.stage !== "cancelled") {
+      text += `⏱️ ETA: ${this.escapeHtml(order.eta)}\n`;
+    }
+    if (note) text += `\n${note}`;
+    return this.truncate(text);
+  }
+
+  /**
+   * Progress message for a multi-step request, edited after every tool call.
+   */
+  formatAgentProgress(steps: AgentStep[], running?: string, note?: string): string {
+    let text = "🤖 <b>Working on it</b>\n\n";
+    for (const step of steps) {
+      text += `${step.failed ? "⚠️" : "✅"} ${this.escapeHtml(this.humaniseToolName(step.toolName))}\n`;
+    }
+    if (running) text += `⏳ <i>${this.escapeHtml(this.humaniseToolName(running))}…</i>\n`;
+    if (note) text += `\n${note}`;
+    return this.truncate(text);
+  }
+
+  private humaniseToolName(toolName: string): string {
+    const words = toolName.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ").trim().toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private formatShortDate(timestamp: number): string {
+    return new Intl.DateTimeFormat("en-IN", { timeZone: DINEOUT_TIMEZONE, day: "numeric", month: "short" }).format(new Date(timestamp));
+  }
+
+  private vegMarker(item: MenuItem): string {
+    if (item.isVeg === true) return "🟢 ";
+    if (item.isVeg === false) return "🔴 ";
+    return "";
+  }
+
   private formatGenericResults(result: FilteredResult, query: string): FormattedMessage {
     if (result.items.length === 0) {
       return this.noResultsMessage(query, result.filtersApplied);
@@ -189,7 +487,7 @@ export class MessageFormatter {
       return { text: this.truncate(raw), parseMode: "HTML" };
     }
 
-    const text = this.formatSearchResults(result, query, "🔍");
+    const text = this.formatSearchResults(result, query, "🔍", { page: 0 });
     return { text: this.truncate(text), parseMode: "HTML" };
   }
 
@@ -202,30 +500,6 @@ export class MessageFormatter {
     return { text, parseMode: "HTML" };
   }
 
-  private buildResultButtons(
-    result: FilteredResult,
-    service: SwiggyService,
-  ): Array<Array<{ text: string; callback_data: string }>> {
-    const buttons: Array<Array<{ text: string; callback_data: string }>> = [];
-
-    result.items.slice(0, MAX_RESULTS_PER_MESSAGE).forEach((item, idx) => {
-      const name = (item.name ?? item.restaurantName ?? item.productName ?? `Item ${idx + 1}`) as string;
-      const id = (item.id ?? item.restaurantId ?? item.productId ?? String(idx)) as string;
-
-      const action = service === "dineout" ? "select_restaurant" : "select_item";
-      const callbackData = JSON.stringify({ a: action, s: service, p: String(id) });
-
-      // Telegram callback_data has a 64-byte limit
-      if (callbackData.length <= 64) {
-        buttons.push([
-          { text: `${idx + 1}. ${name.substring(0, 25)}`, callback_data: callbackData },
-        ]);
-      }
-    });
-
-    return buttons;
-  }
-
   /**
    * Split a long message into chunks respecting Telegram's 4096 char limit.
    */
@@ -0,0 +1,215 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { SwiggyService, DiscoveredTool } from "../types/mcp.types.js";
+import type { TrackedOrder } from "../types/order.types.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { ORDER_TRACKING_BACKOFF_MS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+// Order-status tools, most specific first
+// Tool name patterns, most specific first
+const ORDER_STATUS_TOOL_PATTERNS = [/track_?\w*order/i, /order_?(status|tracking)/i, /(get|fetch)_?order_?details/i, /get_?\w*order$/i];
+
+/**
+ * Follows placed orders by polling the discovered order-status tool and
+ * editing a single status message in the chat (placed → preparing → out
+ * for delivery → delivered).
+ *
+ * Polls back off along ORDER_TRACKING_BACKOFF_MS and stop on delivered or
+ * cancelled, or once the order has been tracked for the configured cap.
+ * Every tracked order is persisted in the SessionStore, so start() picks
+ * them up again after a restart.
+ */
+export class OrderTracker {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private maxTrackingMs: number;
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    maxTrackingMs: number,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.maxTrackingMs = maxTrackingMs;
+  }
+
+  /**
+   * Resume every order that was being tracked when the bot last stopped.
+   * Polls that fell due while it was down run straight away.
+   */
+  start(): void {
+    const orders = this.sessionStore.getTrackedOrders();
+    for (const order of orders) this.schedule(order);
+    if (orders.length > 0) logger.info("Resumed order tracking", { orders: orders.length });
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Start following a freshly placed order. Does nothing when the account
+   * has no order-status tool, or the tool needs an order id we don't have.
+   */
+  async track(userId: number, chatId: number, service: SwiggyService, client: Client, orderId?: string): Promise<void> {
+    const tool = await this.toolDiscovery.findToolForUser(userId, service, client, ORDER_STATUS_TOOL_PATTERNS);
+    if (!tool) {
+      logger.info("No order-status tool, not tracking", { userId, service });
+      return;
+    }
+    if (!orderId && (tool.tool.inputSchema.required ?? []).some((name) => /order/i.test(name))) {
+      logger.info("Order id unknown, not tracking", { userId, service, tool: tool.tool.name });
+      return;
+    }
+
+    const now = Date.now();
+    const order: TrackedOrder = {
+      id: crypto.randomUUID().replace(/-/g, "").substring(0, 8),
+      telegramUserId: userId,
+      chatId,
+      service,
+      profile: this.sessionStore.getActiveProfileName(userId),
+      orderId,
+      messageId: 0,
+      stage: "placed",
+      polls: 0,
+      nextPollAt: now + ORDER_TRACKING_BACKOFF_MS[0],
+      startedAt: now,
+      stopAt: now + this.maxTrackingMs,
+    };
+
+    const message = await this.bot.sendMessage(chatId, this.messageFormatter.formatOrderTracking(order), { parse_mode: "HTML" });
+    order.messageId = message.message_id;
+    this.sessionStore.saveTrackedOrder(order);
+    this.schedule(order);
+    logger.info("Tracking order", { userId, service, orderId, trackingId: order.id });
+  }
+
+  private schedule(order: TrackedOrder): void {
+    clearTimeout(this.timers.get(order.id));
+    const delay = Math.max(0, Math.min(order.nextPollAt, order.stopAt) - Date.now());
+    this.timers.set(order.id, setTimeout(() => {
+      this.poll(order.id).catch((err) => {
+        logger.error("Order tracking poll failed", { trackingId: order.id, error: String(err) });
+      });
+    }, delay));
+  }
+
+  private async poll(trackingId: string): Promise<void> {
+    this.timers.delete(trackingId);
+    // Gone if the user deleted their data since the poll was scheduled
+    const order = this.sessionStore.getTrackedOrder(trackingId);
+    if (!order) return;
+
+    if (Date.now() >= order.stopAt) {
+      await this.finish(order, "<i>I've stopped following this order — check the Swiggy app for further updates.</i>");
+      return;
+    }
+
+    // The MCP client follows the active account; wait until the user switches back
+    if (this.sessionStore.getActiveProfileName(order.telegramUserId) === order.profile) {
+      try {
+        const client = await this.mcpClientManager.getClient(order.telegramUserId, order.service);
+        const tool = await this.toolDiscovery.findToolForUser(order.telegramUserId, order.service, client, ORDER_STATUS_TOOL_PATTERNS);
+        if (!tool) {
+          await this.finish(order, "<i>Order tracking isn't available right now — check the Swiggy app for updates.</i>");
+          return;
+        }
+
+        const result = await this.toolInvoker.invokeWithRetry(client, order.service, tool.tool.name, this.buildArgs(order, tool));
+        if (!this.isStillTracked(trackingId)) return;
+        const status = result.isError ? null : this.resultFilter.parseOrderStatus(result);
+        if (status) {
+          const changed = (status.stage !== null && status.stage !== order.stage)
+            || (status.text !== undefined && status.text !== order.statusText)
+            || (status.eta !== undefined && status.eta !== order.eta);
+          if (status.stage) order.stage = status.stage;
+          if (status.text !== undefined) order.statusText = status.text;
+          if (status.eta !== undefined) order.eta = status.eta;
+
+          if (order.stage === "delivered" || order.stage === "cancelled") {
+            await this.finish(order);
+            return;
+          }
+          if (changed) await this.render(order);
+        }
+      } catch (err) {
+        if (err instanceof AuthenticationRequiredError) {
+          this.mcpClientManager.invalidateClient(order.telegramUserId, order.service, order.profile);
+          await this.finish(order, "<i>Your Swiggy login expired, so I stopped following this order. Check the Swiggy app for updates.</i>");
+          return;
+        }
+        logger.warn("Order status check failed", { trackingId, service: order.service, error: String(err) });
+      }
+    }
+
+    // /deletemydata or /logout may have dropped the order while we waited on Swiggy
+    if (!this.isStillTracked(trackingId)) return;
+
+    order.polls++;
+    order.nextPollAt = Date.now() + ORDER_TRACKING_BACKOFF_MS[Math.min(order.polls, ORDER_TRACKING_BACKOFF_MS.length - 1)];
+    this.sessionStore.saveTrackedOrder(order);
+    this.schedule(order);
+  }
+
+  private isStillTracked(trackingId: string): boolean {
+    return this.sessionStore.getTrackedOrder(trackingId) !== undefined;
+  }
+
+  private async finish(order: TrackedOrder, note?: string): Promise<void> {
+    clearTimeout(this.timers.get(order.id));
+    this.timers.delete(order.id);
+    this.sessionStore.removeTrackedOrder(order.id);
+    await this.render(order, note);
+    logger.info("Stopped tracking order", { trackingId: order.id, stage: order.stage, polls: order.polls });
+  }
+
+  private async render(order: TrackedOrder, note?: string): Promise<void> {
+    try {
+      await this.bot.editMessageText(this.messageFormatter.formatOrderTracking(order, note), {
+        chat_id: order.chatId,
+        message_id: order.messageId,
+        parse_mode: "HTML",
+      });
+    } catch (err) {
+      // Unchanged text, or the user deleted the message — nothing to update either way
+      if (!String(err).includes("message is not modified")) {
+        logger.warn("Failed to update order status message", { trackingId: order.id, error: String(err) });
+      }
+    }
+  }
+
+  /**
+   * Map the order id onto the status tool's inputSchema.
+   */
+  private buildArgs(order: TrackedOrder, tool: DiscoveredTool): Record<string, unknown> {
+    if (!order.orderId) return {};
+    const properties = tool.tool.inputSchema.properties ?? {};
+    const key = Object.keys(properties).find((name) => /^order_?id$|^id$/i.test(name)) ?? "orderId";
+    return { [key]: order.orderId };
+  }
+}
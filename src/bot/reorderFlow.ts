@@ -0,0 +1,313 @@
+import TelegramBot from "node-telegram-bot-api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { Favourite, FavouriteDraft, ReorderReport, SavedItem } from "../types/order.types.js";
+import type { ProductMatch } from "../types/basket.types.js";
+import type { CallbackRegistry } from "./callbackRegistry.js";
+import type { SessionStore } from "../memory/sessionStore.js";
+import type { McpClientManager } from "../mcp/mcpClientManager.js";
+import type { ToolDiscovery } from "../mcp/toolDiscovery.js";
+import type { ToolInvoker } from "../mcp/toolInvoker.js";
+import type { ResultFilter } from "../filters/resultFilter.js";
+import type { MessageFormatter } from "./messageFormatter.js";
+import { CHECKOUT_SERVICES, type CheckoutService } from "./checkoutFlow.js";
+import { buildReorderKeyboard, buildViewCartKeyboard } from "./inlineKeyboards.js";
+import { AuthenticationRequiredError } from "../utils/errors.js";
+import { editFlowMessage, replyWithFlowError } from "./flowMessages.js";
+import { ADD_TO_CART_TOOL_PATTERNS, MENU_TOOL_PATTERNS, MESSAGES, PRODUCT_SEARCH_TOOL_PATTERNS, SERVICE_LABELS } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Current state of a saved item: undefined if it couldn't be found, null if
+ * its check failed (a search error) and it's unknown either way
+ */
+type Availability = Map<string, { inStock: boolean; price?: number } | null>;
+
+/**
+ * Favourites and /reorder. Orders are recorded by CheckoutFlow when they are
+ * placed; favourites come from the ⭐ Save buttons. Reordering re-checks
+ * every item against the live menu (food) or product search (Instamart)
+ * first, skips what's gone, flags price changes and adds the rest to the
+ * cart — it never checks out.
+ */
+export class ReorderFlow {
+  private bot: TelegramBot;
+  private sessionStore: SessionStore;
+  private mcpClientManager: McpClientManager;
+  private toolDiscovery: ToolDiscovery;
+  private toolInvoker: ToolInvoker;
+  private resultFilter: ResultFilter;
+  private messageFormatter: MessageFormatter;
+  private callbacks: CallbackRegistry;
+  /** Users with a reorder being added right now — guards against double taps */
+  private inFlight = new Set<number>();
+
+  constructor(
+    bot: TelegramBot,
+    sessionStore: SessionStore,
+    mcpClientManager: McpClientManager,
+    toolDiscovery: ToolDiscovery,
+    toolInvoker: ToolInvoker,
+    resultFilter: ResultFilter,
+    messageFormatter: MessageFormatter,
+    callbacks: CallbackRegistry,
+  ) {
+    this.bot = bot;
+    this.sessionStore = sessionStore;
+    this.mcpClientManager = mcpClientManager;
+    this.toolDiscovery = toolDiscovery;
+    this.toolInvoker = toolInvoker;
+    this.resultFilter = resultFilter;
+    this.messageFormatter = messageFormatter;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * /reorder — list past orders and favourites.
+   */
+  async list(msg: TelegramBot.Message): Promise<void> {
+    const userId = msg.from!.id;
+    const orders = this.sessionStore.getPastOrders(userId);
+    const favourites = this.sessionStore.getFavourites(userId);
+
+    await this.bot.sendMessage(msg.chat.id, this.messageFormatter.formatReorderList(orders, favourites), {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: buildReorderKeyboard(this.callbacks.forUser(userId), orders, favourites) },
+    });
+  }
+
+  async save(userId: number, chatId: number, draft: FavouriteDraft): Promise<void> {
+    const { created } = this.sessionStore.addFavourite(userId, draft);
+    const name = this.messageFormatter.escapeHtml(draft.name);
+    await this.bot.sendMessage(
+      chatId,
+      created ? `⭐ Saved <b>${name}</b> to your favourites. Use /reorder to find it again.` : `<b>${name}</b> is already in your favourites.`,
+      { parse_mode: "HTML" },
+    );
+  }
+
+  /**
+   * Drop a favourite and redraw the /reorder list it was removed from.
+   */
+  async remove(userId: number, chatId: number, messageId: number, favouriteId: string): Promise<void> {
+    if (!this.sessionStore.removeFavourite(userId, favouriteId)) return;
+    const orders = this.sessionStore.getPastOrders(userId);
+    const favourites = this.sessionStore.getFavourites(userId);
+    await editFlowMessage(this.bot, chatId, messageId, this.messageFormatter.formatReorderList(orders, favourites),
+      buildReorderKeyboard(this.callbacks.forUser(userId), orders, favourites));
+  }
+
+  /**
+   * Add a past order's items to the cart again.
+   */
+  async reorder(userId: number, chatId: number, orderId: string): Promise<void> {
+    const order = this.sessionStore.getPastOrders(userId).find((o) => o.id === orderId);
+    if (!order) {
+      await this.bot.sendMessage(chatId, "I no longer have that order. Use /reorder to see your recent ones.");
+      return;
+    }
+    if (order.items.length === 0) {
+      await this.bot.sendMessage(chatId, "Swiggy didn't tell me which items were in that order, so I can't rebuild it.");
+      return;
+    }
+    const label = order.restaurantName ?? `your ${SERVICE_LABELS[order.service]} order`;
+    await this.addItems(userId, chatId, order.service as CheckoutService, label, order.items, order.restaurantId);
+  }
+
+  /**
+   * Add a saved dish or product to the cart. Restaurant favourites are
+   * opened by the caller instead (menu or booking).
+   */
+  async reorderItem(userId: number, chatId: number, favourite: Favourite): Promise<void> {
+    const item: SavedItem = { id: favourite.targetId, name: favourite.name, quantity: 1, price: favourite.price };
+    await this.addItems(userId, chatId, favourite.service as CheckoutService, favourite.name, [item], favourite.restaurantId);
+  }
+
+  private async addItems(
+    userId: number,
+    chatId: number,
+    service: CheckoutService,
+    label: string,
+    items: SavedItem[],
+    restaurantId?: string,
+  ): Promise<void> {
+    if (!CHECKOUT_SERVICES.includes(service)) return;
+    if (!this.sessionStore.isAuthenticated(userId, service)) {
+      await this.bot.sendMessage(chatId, MESSAGES.AUTH_REQUIRED(SERVICE_LABELS[service]), { parse_mode: "HTML" });
+      return;
+    }
+
+    if (this.inFlight.has(userId)) return;
+    this.inFlight.add(userId);
+    await this.bot.sendChatAction(chatId, "typing");
+
+    try {
+      const client = await this.mcpClientManager.getClient(userId, service);
+      const cartTool = await this.toolDiscovery.findToolForUser(userId, service, client, ADD_TO_CART_TOOL_PATTERNS);
+      if (!cartTool) {
+        await this.bot.sendMessage(chatId, "Adding to cart isn't available for your account right now.");
+        return;
+      }
+
+      const availability = service === "food"
+        ? await this.checkMenu(userId, client, restaurantId)
+        : await this.checkProducts(userId, client, items);
+
+      const report: ReorderReport = { added: [], unavailable: [], priceChanges: [], failed: [], unchecked: [], checked: availability !== null };
+      const toAdd: SavedItem[] = [];
+      for (const item of items) {
+        const current = availability?.get(item.id);
+        // A failed check isn't a missing item — add it and say it wasn't checked
+        if (current === null) {
+          report.unchecked.push(item);
+          toAdd.push(item);
+          continue;
+        }
+        if (availability && (!current || !current.inStock)) {
+          report.unavailable.push(item);
+          continue;
+        }
+        if (current?.price != null && item.price != null && Math.abs(current.price - item.price) >= 0.5) {
+          report.priceChanges.push({ item, price: current.price });
+        }
+        toAdd.push(item);
+      }
+
+      // One call when the tool takes a list, otherwise one item at a time
+      const properties = (cartTool.tool.inputSchema.properties ?? {}) as Record<string, { type?: string }>;
+      const batches = properties.items?.type === "array" ? [toAdd] : toAdd.map((item) => [item]);
+      for (const batch of batches) {
+        if (batch.length === 0) continue;
+        const args = this.buildCartArgs(userId, service, cartTool, batch, restaurantId);
+        // Adding isn't idempotent: a retry after a lost response would add the items twice
+        const result = await this.toolInvoker.invoke(client, service, cartTool.tool.name, args);
+        (result.isError ? report.failed : report.added).push(...batch);
+      }
+
+      logger.info("Reordered items", {
+        userId,
+        service,
+        added: report.added.length,
+        unavailable: report.unavailable.length,
+        priceChanges: report.priceChanges.length,
+        failed: report.failed.length,
+      });
+
+      await this.bot.sendMessage(chatId, this.messageFormatter.formatReorderReport(label, report), {
+        parse_mode: "HTML",
+        reply_markup: report.added.length > 0
+          ? { inline_keyboard: buildViewCartKeyboard(this.callbacks.forUser(userId), service) }
+          : undefined,
+      });
+    } catch (err) {
+      await replyWithFlowError(this.bot, this.mcpClientManager, userId, chatId, service, err, "Reorder error");
+    } finally {
+      this.inFlight.delete(userId);
+    }
+  }
+
+  /**
+   * Current stock and price of every dish on the restaurant's menu, or null
+   * if the menu can't be read.
+   */
+  private async checkMenu(userId: number, client: Client, restaurantId?: string): Promise<Availability | null> {
+    if (!restaurantId) return null;
+    const menuTool = this.toolDiscovery.findTool("food", userId, MENU_TOOL_PATTERNS);
+    if (!menuTool) return null;
+
+    const properties = menuTool.tool.inputSchema.properties ?? {};
+    const args: Record<string, unknown> = {};
+    for (const name of Object.keys(properties)) {
+      if (/restaurant_?id|^restaurant$|^id$/i.test(name)) args[name] = restaurantId;
+    }
+    if (Object.keys(args).length === 0) args.restaurantId = restaurantId;
+
+    const result = await this.toolInvoker.invokeWithRetry(client, "food", menuTool.tool.name, args);
+    const menu = result.isError ? null : this.resultFilter.parseMenu(result);
+    if (!menu) return null;
+
+    const availability: Availability = new Map();
+    for (const dish of menu.categories.flatMap((c) => c.items)) {
+      availability.set(dish.id, { inStock: dish.inStock, price: dish.price });
+    }
+    return availability;
+  }
+
+  /**
+   * Search for each product by name and find it again by id. Null when
+   * product search isn't available; items whose search failed map to null.
+   */
+  private async checkProducts(userId: number, client: Client, items: SavedItem[]): Promise<Availability | null> {
+    const searchTool = this.toolDiscovery.findTool("instamart", userId, PRODUCT_SEARCH_TOOL_PATTERNS);
+    if (!searchTool) return null;
+
+    const properties = searchTool.tool.inputSchema.properties ?? {};
+    const queryKey = Object.keys(properties).find((name) => /query|search|keyword|term|^q$/i.test(name)) ?? "query";
+    const addressId = this.sessionStore.getAddressId(userId, "instamart");
+
+    const found = await Promise.all(items.map(async (item): Promise<ProductMatch | null | undefined> => {
+      const args: Record<string, unknown> = { [queryKey]: item.name };
+      for (const name of Object.keys(properties)) {
+        if (/^address_?id$/i.test(name) && addressId) args[name] = addressId;
+      }
+      try {
+        const result = await this.toolInvoker.invokeWithRetry(client, "instamart", searchTool.tool.name, args);
+        const products = result.isError ? null : this.resultFilter.parseProducts(result);
+        if (!products) {
+          logger.warn("Reorder product search gave no readable result", { userId, item: item.name });
+          return null;
+        }
+        return products.find((p) => p.id === item.id);
+      } catch (err) {
+        if (err instanceof AuthenticationRequiredError) throw err;
+        logger.warn("Reorder product check failed", { userId, item: item.name, error: String(err) });
+        return null;
+      }
+    }));
+
+    const availability: Availability = new Map();
+    found.forEach((product, idx) => {
+      if (product === null) availability.set(items[idx].id, null);
+      else if (product) availability.set(items[idx].id, { inStock: product.inStock, price: product.price });
+    });
+    return availability;
+  }
+
+  /**
+   * Map saved items onto the cart tool's inputSchema. Tools that take an
+   * `items` array get the whole batch in one call.
+   */
+  private buildCartArgs(
+    userId: number,
+    service: CheckoutService,
+    tool: DiscoveredTool,
+    items: SavedItem[],
+    restaurantId?: string,
+  ): Record<string, unknown> {
+    const properties = (tool.tool.inputSchema.properties ?? {}) as Record<string, { type?: string; items?: { properties?: Record<string, unknown> } }>;
+    const args: Record<string, unknown> = {};
+    const addressId = this.sessionStore.getAddressId(userId, service);
+    const defaultIdKey = service === "food" ? "itemId" : "productId";
+
+    for (const name of Object.keys(properties)) {
+      if (restaurantId && /restaurant_?id|^restaurant$/i.test(name)) args[name] = restaurantId;
+      else if (/^address_?id$/i.test(name) && addressId) args[name] = addressId;
+    }
+
+    if (properties.items?.type === "array") {
+      const itemKeys = Object.keys(properties.items.items?.properties ?? {});
+      const idKey = itemKeys.find((key) => /(product|item|sku|variant|spin)_?id$/i.test(key)) ?? defaultIdKey;
+      const quantityKey = itemKeys.find((key) => /^(quantity|qty)$/i.test(key)) ?? "quantity";
+      args.items = items.map((item) => ({ [idKey]: item.id, [quantityKey]: item.quantity }));
+      return args;
+    }
+
+    const [item] = items;
+    for (const name of Object.keys(properties)) {
+      if (/(product|item|sku|variant|spin)_?id$/i.test(name)) args[name] = item.id;
+      else if (/^(quantity|qty)$/i.test(name)) args[name] = item.quantity;
+    }
+    if (!Object.values(args).includes(item.id)) args[defaultIdKey] = item.id;
+    return args;
+  }
+}
@@ -1,23 +1,44 @@
 import TelegramBot from "node-telegram-bot-api";
 import type { AppConfig } from "../config/env.js";
 import type { SwiggyService } from "../types/mcp.types.js";
-import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { FilteredResult } from "../types/mcp.types.js";
 import type { ParsedIntent } from "../types/gemini.types.js";
-import { SessionStore } from "../memory/sessionStore.js";
+import type { CallbackData, FormattedMessage } from "../types/telegram.types.js";
+import { SessionStore, createSessionBackend } from "../memory/sessionStore.js";
+import type { PendingOAuthFlow } from "../types/user.types.js";
+import { OAuthFlowManager } from "../auth/oauthFlowManager.js";
+import { TokenRevoker } from "../auth/tokenRevoker.js";
 import { ConversationMemory } from "../memory/conversationMemory.js";
+import { ResultPageStore } from "../memory/resultPageStore.js";
 import { McpClientManager } from "../mcp/mcpClientManager.js";
 import { ToolDiscovery } from "../mcp/toolDiscovery.js";
 import { ToolInvoker } from "../mcp/toolInvoker.js";
-import { GeminiClient } from "../nlu/geminiClient.js";
+import { createNluProvider, type NluProvider } from "../nlu/nluProvider.js";
 import { IntentRouter } from "../nlu/intentRouter.js";
+import { ShoppingListParser } from "../nlu/shoppingListParser.js";
+import { needsConfirmation } from "../nlu/toolFunctions.js";
+import { validateSchema, type SchemaValidation } from "../nlu/schemaValidator.js";
 import { ResultFilter } from "../filters/resultFilter.js";
 import { MessageFormatter } from "../bot/messageFormatter.js";
 import { CommandHandlers } from "./commandHandlers.js";
+import { CheckoutFlow, CHECKOUT_SERVICES, type CheckoutService } from "./checkoutFlow.js";
+import { MenuBrowser } from "./menuBrowser.js";
+import { DineoutWizard } from "./dineoutWizard.js";
+import { GroceryBasketBuilder } from "./groceryBasket.js";
+import { ReorderFlow } from "./reorderFlow.js";
+import { AgentLoop } from "./agentLoop.js";
+import { OrderTracker } from "./orderTracker.js";
+import { AddressPicker } from "./addressPicker.js";
+import { CallbackRegistry } from "./callbackRegistry.js";
+import { buildAuthLinkKeyboard, buildRetryLoginKeyboard } from "./inlineKeyboards.js";
 import { RateLimiter } from "../utils/rateLimiter.js";
 import { AuthenticationRequiredError } from "../utils/errors.js";
-import { MESSAGES, SERVICE_LABELS } from "../config/constants.js";
+import { MESSAGES, SERVICE_LABELS, RECIPE_DEFAULT_SERVINGS, MAX_RECIPE_SERVINGS } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
 
+const CHECKOUT_INTENTS: ParsedIntent["intent"][] = ["food_view_cart", "food_checkout", "grocery_checkout"];
+const BOOKING_INTENTS: ParsedIntent["intent"][] = ["dineout_check_slots", "dineout_book_table"];
+
 export class TelegramBotApp {
   private bot: TelegramBot;
   private config: AppConfig;
@@ -26,44 +47,117 @@ export class TelegramBotApp {
   private mcpClientManager: McpClientManager;
   private toolDiscovery: ToolDiscovery;
   private toolInvoker: ToolInvoker;
-  private geminiClient: GeminiClient;
+  private nlu: NluProvider;
   private intentRouter: IntentRouter;
+  private shoppingListParser: ShoppingListParser;
   private resultFilter: ResultFilter;
   private messageFormatter: MessageFormatter;
   private commandHandlers: CommandHandlers;
   private rateLimiter: RateLimiter;
+  private flowManager: OAuthFlowManager;
+  private checkoutFlow: CheckoutFlow;
+  private orderTracker: OrderTracker;
+  private addressPicker: AddressPicker;
+  private menuBrowser: MenuBrowser;
+  private dineoutWizard: DineoutWizard;
+  private groceryBasket: GroceryBasketBuilder;
+  private reorderFlow: ReorderFlow;
+  private agentLoop: AgentLoop;
+  private callbackRegistry: CallbackRegistry;
+  private resultPages: ResultPageStore;
 
   constructor(config: AppConfig) {
     this.config = config;
 
-    // Initialize bot
-    this.bot = new TelegramBot(config.telegramBotToken, { polling: true });
+    // Initialize bot — in webhook mode updates arrive via processUpdate()
+    this.bot = new TelegramBot(config.telegramBotToken, { polling: config.telegramMode === "polling" });
 
     // Initialize services
-    this.sessionStore = new SessionStore();
+    this.sessionStore = new SessionStore(createSessionBackend(config));
     this.conversationMemory = new ConversationMemory(
       config.maxConversationTurns,
       config.conversationTtlMs,
     );
 
-    this.mcpClientManager = new McpClientManager(
-      this.sessionStore,
-      {
-        food: config.swiggyMcpFoodUrl,
-        instamart: config.swiggyMcpInstamartUrl,
-        dineout: config.swiggyMcpDineoutUrl,
-      },
-      config.oauthCallbackPort,
-      config.oauthCallbackHost,
-    );
+    const endpoints = {
+      food: config.swiggyMcpFoodUrl,
+      instamart: config.swiggyMcpInstamartUrl,
+      dineout: config.swiggyMcpDineoutUrl,
+    };
+    this.mcpClientManager = new McpClientManager(this.sessionStore, endpoints, config.oauthCallbackUrl);
 
-    this.toolDiscovery = new ToolDiscovery();
+    this.toolDiscovery = new ToolDiscovery((userId) => this.sessionStore.getScopeKey(userId));
     this.toolInvoker = new ToolInvoker();
-    this.geminiClient = new GeminiClient(config.geminiApiKey, config.geminiModel);
+    this.nlu = createNluProvider(config);
     this.intentRouter = new IntentRouter();
+    this.shoppingListParser = new ShoppingListParser();
     this.resultFilter = new ResultFilter();
     this.messageFormatter = new MessageFormatter();
     this.rateLimiter = new RateLimiter(config.rateLimitMaxRequests, config.rateLimitWindowMs);
+    this.callbackRegistry = new CallbackRegistry();
+    this.resultPages = new ResultPageStore();
+    this.flowManager = new OAuthFlowManager(this.sessionStore, (flow) => {
+      this.handleLoginExpired(flow).catch((err) => {
+        logger.error("Failed to send login expiry notice", { userId: flow.telegramUserId, error: String(err) });
+      });
+    });
+
+    this.orderTracker = new OrderTracker(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      config.orderTrackingMaxMs,
+    );
+
+    this.checkoutFlow = new CheckoutFlow(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
+      this.orderTracker,
+    );
+
+    this.menuBrowser = new MenuBrowser(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
+    );
+
+    this.dineoutWizard = new DineoutWizard(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
+    );
+
+    this.groceryBasket = new GroceryBasketBuilder(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.nlu,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
+    );
 
     this.commandHandlers = new CommandHandlers(
       this.bot,
@@ -72,7 +166,56 @@ export class TelegramBotApp {
       this.mcpClientManager,
       this.toolDiscovery,
       this.toolInvoker,
+      this.flowManager,
+      new TokenRevoker(this.sessionStore, endpoints, config.oauthCallbackUrl),
+      this.rateLimiter,
+      this.callbackRegistry,
+      this.resultPages,
+      this.checkoutFlow,
+      this.menuBrowser,
+      this.dineoutWizard,
+      this.groceryBasket,
+      config.adminUserIds,
+    );
+
+    this.addressPicker = new AddressPicker(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
+    );
+
+    this.reorderFlow = new ReorderFlow(
+      this.bot,
+      this.sessionStore,
+      this.mcpClientManager,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.resultFilter,
+      this.messageFormatter,
+      this.callbackRegistry,
     );
+    this.agentLoop = new AgentLoop(
+      this.bot,
+      this.nlu,
+      this.toolDiscovery,
+      this.toolInvoker,
+      this.messageFormatter,
+      this.checkoutFlow,
+      (userId, service, toolName, args) => {
+        this.injectAddressId(userId, service, args);
+        this.injectLocation(userId, service, toolName, args);
+      },
+      config.agentMaxSteps,
+    );
+
+    // Before anything can deliver updates: polling starts with the bot, and
+    // webhook updates arrive as soon as the callback server is listening
+    this.registerHandlers();
   }
 
   getSessionStore(): SessionStore {
@@ -87,14 +230,46 @@ export class TelegramBotApp {
     return this.toolDiscovery;
   }
 
+  getFlowManager(): OAuthFlowManager {
+    return this.flowManager;
+  }
+
+  /**
+   * Feed an update received on the webhook into the regular handlers.
+   */
+  processUpdate(update: TelegramBot.Update): void {
+    this.bot.processUpdate(update);
+  }
+
   async start(): Promise<void> {
-    this.registerHandlers();
-    logger.info("Telegram bot started with polling");
+    this.flowManager.start();
+    this.orderTracker.start();
+
+    if (this.config.telegramMode === "webhook") {
+      const webhookUrl = `${this.config.oauthPublicBaseUrl}/telegram/${this.config.telegramWebhookSecret}`;
+      await this.bot.setWebHook(webhookUrl, { secret_token: this.config.telegramWebhookSecret });
+      logger.info("Telegram bot started with webhook", { url: `${this.config.oauthPublicBaseUrl}/telegram/***` });
+    } else {
+      logger.info("Telegram bot started with polling");
+    }
   }
 
   async stop(): Promise<void> {
-    this.bot.stopPolling();
+    if (this.config.telegramMode === "webhook") {
+      try {
+        await this.bot.deleteWebHook();
+      } catch (err) {
+        logger.warn("Failed to delete Telegram webhook", { error: String(err) });
+      }
+    } else {
+      this.bot.stopPolling();
+    }
+    this.flowManager.stop();
+    this.orderTracker.stop();
     this.conversationMemory.destroy();
+    this.callbackRegistry.destroy();
+    this.resultPages.destroy();
+    this.sessionStore.close();
     logger.info("Telegram bot stopped");
   }
 
@@ -118,8 +293,8 @@ export class TelegramBotApp {
       // Discover tools and fetch default address for this newly authenticated service
       try {
         const client = await this.mcpClientManager.getClient(userId, service);
-        const tools = await this.toolDiscovery.discoverToolsForUser(userId, service, client);
-        await this.autoFetchAddress(userId, service, client, tools);
+        await this.toolDiscovery.discoverToolsForUser(userId, service, client);
+        await this.addressPicker.ensureAddress(userId, service, client);
       } catch (err) {
         logger.warn("Post-auth tool discovery failed", { userId, service, error: String(err) });
       }
@@ -131,6 +306,40 @@ export class TelegramBotApp {
     }
   }
 
+  /**
+   * Token refresh failed for good — DM the user a fresh login link.
+   */
+  async handleReauthRequired(
+    userId: number,
+    chatId: number,
+    service: SwiggyService,
+    authUrl: string,
+  ): Promise<void> {
+    const session = this.sessionStore.getSession(userId);
+    await this.bot.sendMessage(
+      session?.telegramChatId ?? chatId,
+      MESSAGES.AUTH_REFRESH_FAILED(SERVICE_LABELS[service]),
+      {
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: buildAuthLinkKeyboard(authUrl, service) },
+      },
+    );
+  }
+
+  /**
+   * A /login link went unused past its expiry — offer a fresh one.
+   */
+  private async handleLoginExpired(flow: PendingOAuthFlow): Promise<void> {
+    await this.bot.sendMessage(
+      flow.chatId,
+      MESSAGES.LOGIN_LINK_EXPIRED(SERVICE_LABELS[flow.service]),
+      {
+        parse_mode: "HTML",
+        reply_markup: { inline_keyboard: buildRetryLoginKeyboard(this.callbackRegistry.forUser(flow.telegramUserId), flow.service) },
+      },
+    );
+  }
+
   private registerHandlers(): void {
     // Command handlers — all wrapped with .catch() to prevent unhandled rejections from crashing the process
     this.bot.onText(/\/start/, (msg) => {
@@ -153,6 +362,21 @@ export class TelegramBotApp {
         logger.error("Error in /logout handler", { error: String(err) });
       });
     });
+    this.bot.onText(/\/reregister\s*(.*)/, (msg, match) => {
+      this.commandHandlers.handleReregister(msg, match?.[1]?.trim()).catch((err) => {
+        logger.error("Error in /reregister handler", { error: String(err) });
+      });
+    });
+    this.bot.onText(/\/account\s*(.*)/, (msg, match) => {
+      this.commandHandlers.handleAccount(msg, match?.[1]?.trim()).catch((err) => {
+        logger.error("Error in /account handler", { error: String(err) });
+      });
+    });
+    this.bot.onText(/\/deletemydata/, (msg) => {
+      this.commandHandlers.handleDeleteMyData(msg).catch((err) => {
+        logger.error("Error in /deletemydata handler", { error: String(err) });
+      });
+    });
     this.bot.onText(/\/status/, (msg) => {
       this.commandHandlers.handleStatus(msg).catch((err) => {
         logger.error("Error in /status handler", { error: String(err) });
@@ -168,6 +392,16 @@ export class TelegramBotApp {
         logger.error("Error in /clear handler", { error: String(err) });
       });
     });
+    this.bot.onText(/\/address\s*(.*)/, (msg, match) => {
+      this.addressPicker.show(msg, match?.[1]?.trim()).catch((err) => {
+        logger.error("Error in /address handler", { error: String(err) });
+      });
+    });
+    this.bot.onText(/\/reorder/, (msg) => {
+      this.reorderFlow.list(msg).catch((err) => {
+        logger.error("Error in /reorder handler", { error: String(err) });
+      });
+    });
 
     // Callback query handler (inline keyboard buttons)
     this.bot.on("callback_query", (query) => {
@@ -178,6 +412,13 @@ export class TelegramBotApp {
 
     // General message handler (natural language)
     this.bot.on("message", (msg) => {
+      // Shared pins, live locations and venues pick the delivery location
+      if (msg.location) {
+        this.handleLocation(msg).catch((err) => {
+          logger.error("Unhandled error in location handler", { error: String(err) });
+        });
+        return;
+      }
       // Skip commands
       if (msg.text?.startsWith("/")) return;
       if (!msg.text) return;
@@ -188,43 +429,219 @@ export class TelegramBotApp {
   }
 
   private async handleCallbackQuery(query: TelegramBot.CallbackQuery): Promise<void> {
-    const data = query.data;
-    if (!data) return;
-
-    await this.bot.answerCallbackQuery(query.id);
-
+    const token = query.data;
     const chatId = query.message?.chat.id;
     const userId = query.from.id;
-    if (!chatId) return;
+    if (!token || !chatId) {
+      await this.bot.answerCallbackQuery(query.id);
+      return;
+    }
 
-    // Handle login callbacks
-    if (data.startsWith("login:")) {
-      const service = data.split(":")[1] as SwiggyService;
-      await this.commandHandlers.initiateLogin(userId, chatId, service);
+    const resolved = this.callbackRegistry.resolve(token, userId);
+    if (resolved.status === "expired") {
+      await this.bot.answerCallbackQuery(query.id, { text: "This button has expired. Please start again." });
+      return;
+    }
+    if (resolved.status === "foreign") {
+      await this.bot.answerCallbackQuery(query.id, { text: "This button belongs to someone else." });
       return;
     }
 
-    // Handle checkout confirmations
-    if (data.startsWith("checkout:")) {
-      const [, service, action] = data.split(":");
-      if (action === "cancel") {
-        await this.bot.sendMessage(chatId, "Order cancelled.");
-      } else {
-        await this.bot.sendMessage(chatId, `⚠️ Checkout flow for ${service} — this would place a COD order. Feature requires full MCP tool integration.`);
+    await this.bot.answerCallbackQuery(query.id);
+    await this.dispatchCallback(resolved.data, userId, chatId, query.message);
+  }
+
+  /**
+   * Single entry point for every inline button. The switch is exhaustive
+   * over CallbackData, so adding an action without handling it won't compile.
+   */
+  private async dispatchCallback(
+    data: CallbackData,
+    userId: number,
+    chatId: number,
+    message?: TelegramBot.Message,
+  ): Promise<void> {
+    switch (data.action) {
+      case "login":
+        await this.commandHandlers.initiateLogin(userId, chatId, data.service);
+        return;
+
+      case "delete_data":
+        await this.removeKeyboard(chatId, message);
+        if (data.confirm) {
+          await this.commandHandlers.confirmDeleteMyData(userId, chatId);
+        } else {
+          await this.bot.sendMessage(chatId, "Nothing was deleted.");
+        }
+        return;
+
+      case "confirm_order":
+      case "cancel_order": {
+        if (!CHECKOUT_SERVICES.includes(data.service as CheckoutService)) return;
+        // Drop the buttons so the bill can't be confirmed again from this message
+        await this.removeKeyboard(chatId, message);
+        const service = data.service as CheckoutService;
+        if (data.action === "confirm_order") {
+          await this.checkoutFlow.confirm(userId, chatId, service, data.checkoutId);
+        } else {
+          await this.checkoutFlow.cancel(userId, chatId, service, data.checkoutId);
+        }
+        return;
+      }
+
+      case "view_cart":
+        if (CHECKOUT_SERVICES.includes(data.service as CheckoutService)) {
+          await this.checkoutFlow.review(userId, chatId, data.service as CheckoutService);
+        }
+        return;
+
+      case "menu_home":
+      case "menu_category":
+      case "menu_dish":
+      case "add_to_cart":
+        if (!message) return;
+        await this.menuBrowser.handleCallback(userId, chatId, message.message_id, data);
+        return;
+
+      case "book_date":
+      case "book_guests":
+      case "book_slot":
+      case "book_back":
+      case "book_confirm":
+      case "book_cancel":
+        if (!message) return;
+        await this.dineoutWizard.handleCallback(userId, chatId, message.message_id, data);
+        return;
+
+      case "basket_swap":
+      case "basket_toggle":
+      case "basket_add":
+        if (!message) return;
+        await this.groceryBasket.handleCallback(userId, chatId, message.message_id, data);
+        return;
+
+      case "save_favourite":
+        await this.reorderFlow.save(userId, chatId, data.favourite);
+        return;
+
+      case "remove_favourite":
+        if (!message) return;
+        await this.reorderFlow.remove(userId, chatId, message.message_id, data.favouriteId);
+        return;
+
+      case "reorder":
+        await this.reorderFlow.reorder(userId, chatId, data.orderId);
+        return;
+
+      case "reorder_favourite": {
+        const favourite = this.sessionStore.getFavourites(userId).find((f) => f.id === data.favouriteId);
+        if (!favourite) {
+          await this.bot.sendMessage(chatId, "That favourite was removed. Use /reorder to see the rest.");
+          return;
+        }
+        // Saved restaurants open their menu or booking; saved dishes and products go to the cart
+        if (favourite.kind === "restaurant" && favourite.service === "food") {
+          await this.menuBrowser.open(userId, chatId, favourite.targetId);
+        } else if (favourite.kind === "restaurant" && favourite.service === "dineout") {
+          await this.dineoutWizard.start(userId, chatId, favourite.targetId, favourite.name);
+        } else if (CHECKOUT_SERVICES.includes(favourite.service as CheckoutService)) {
+          await this.reorderFlow.reorderItem(userId, chatId, favourite);
+        }
+        return;
+      }
+
+      case "select_address": {
+        if (!message) return;
+        const changed = await this.addressPicker.select(userId, chatId, message.message_id, data.service, data.address);
+        if (!changed) return;
+        const notes = [
+          `📍 ${SERVICE_LABELS[data.service]} will now deliver to <b>${this.messageFormatter.escapeHtml(data.address.label)}</b>.`,
+          ...this.dropAddressBoundState(userId, data.service),
+        ];
+        await this.bot.sendMessage(chatId, notes.join("\n"), { parse_mode: "HTML" });
+        return;
+      }
+
+      case "select_restaurant":
+        // Food search results are restaurants — open their menu
+        if (data.service === "food") {
+          await this.menuBrowser.open(userId, chatId, data.restaurantId);
+          return;
+        }
+        // Dineout results start a table booking
+        if (data.service === "dineout") {
+          await this.dineoutWizard.start(userId, chatId, data.restaurantId, data.name ?? "Restaurant");
+          return;
+        }
+        await this.bot.sendMessage(
+          chatId,
+          `Selected restaurant on ${data.service} (ID: ${data.restaurantId})\n\nFull interactive flows for ${SERVICE_LABELS[data.service]} require active MCP tool integration.`,
+        );
+        return;
+
+      case "select_item":
+        await this.bot.sendMessage(
+          chatId,
+          `Selected item on ${data.service} (ID: ${data.itemId})\n\nFull interactive flows (add to cart, checkout) require active MCP tool integration.`,
+        );
+        return;
+
+      case "page":
+        if (!message) return;
+        await this.showResultPage(userId, chatId, message, data.resultsId, data.page);
+        return;
+
+      default: {
+        const unhandled: never = data;
+        logger.warn("Unhandled callback action", { data: unhandled });
       }
+    }
+  }
+
+  private async removeKeyboard(chatId: number, message?: TelegramBot.Message): Promise<void> {
+    if (!message) return;
+    await this.bot
+      .editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: message.message_id })
+      .catch(() => undefined);
+  }
+
+  /**
+   * A location (or venue) shared in chat becomes the delivery location.
+   * Live locations are taken once, when sharing starts; their later
+   * updates arrive as edits and are ignored.
+   */
+  private async handleLocation(msg: TelegramBot.Message): Promise<void> {
+    const userId = msg.from!.id;
+    const chatId = msg.chat.id;
+    // live_period is missing from the bundled Telegram types
+    const { latitude, longitude, live_period } = msg.location! as TelegramBot.Location & { live_period?: number };
+
+    this.sessionStore.getOrCreateSession(userId, chatId, msg.from?.username);
+    if (this.rateLimiter.isLimited(userId)) {
+      await this.bot.sendMessage(chatId, MESSAGES.ERROR_RATE_LIMIT);
       return;
     }
 
-    // Handle other callbacks (item selection, pagination, etc.)
-    try {
-      const parsed = JSON.parse(data);
-      await this.bot.sendMessage(
-        chatId,
-        `Selected: ${parsed.a} on ${parsed.s} (ID: ${parsed.p})\n\nFull interactive flows (add to cart, checkout) require active MCP tool integration.`,
-      );
-    } catch {
-      logger.warn("Unknown callback data", { data });
+    const label = msg.venue?.title ?? (live_period ? "your live location" : "the pinned location");
+    const changed = await this.addressPicker.useLocation(userId, chatId, { lat: latitude, lng: longitude, label });
+
+    const notes = changed.flatMap((service) => this.dropAddressBoundState(userId, service));
+    if (notes.length > 0) await this.bot.sendMessage(chatId, notes.join("\n"));
+  }
+
+  /**
+   * The delivery address changed: drop bills and baskets built for the old
+   * one. Returns a note for each thing dropped.
+   */
+  private dropAddressBoundState(userId: number, service: SwiggyService): string[] {
+    const notes: string[] = [];
+    if (CHECKOUT_SERVICES.includes(service as CheckoutService) && this.checkoutFlow.invalidate(userId, service as CheckoutService)) {
+      notes.push(`The ${SERVICE_LABELS[service]} bill you were reviewing was for your old address — ask to see your cart again before ordering.`);
     }
+    if (service === "instamart" && this.groceryBasket.discard(userId)) {
+      notes.push("Your basket was matched against the old address's store, so I've cleared it. Send the recipe or list again to rebuild it.");
+    }
+    return notes;
   }
 
   /**
@@ -250,9 +667,9 @@ export class TelegramBotApp {
     // Step 1: Get conversation history
     const history = this.conversationMemory.getHistory(userId);
 
-    // Step 2: Parse intent via Gemini
+    // Step 2: Parse intent via the NLU provider
     const availableTools = this.toolDiscovery.getTools(userId);
-    let parsedIntent = await this.geminiClient.parseIntent(text, history, availableTools);
+    let parsedIntent = await this.nlu.parseIntent(text, history, availableTools);
 
     if (parsedIntent.intent === "unknown" && parsedIntent.confidence === 0) {
       await this.bot.sendMessage(chatId, MESSAGES.ERROR_REPHRASE);
@@ -293,37 +710,90 @@ export class TelegramBotApp {
       return;
     }
 
-    // Step 6: Route intent to MCP tool
-    const routed = this.intentRouter.route(parsedIntent, availableTools);
-    if (!routed) {
-      // No tool match — try direct query with the first available tool for the service
-      await this.bot.sendMessage(
-        chatId,
-        `I understood you want to ${parsedIntent.intent.replace(/_/g, " ")} on ${SERVICE_LABELS[service]}, but I couldn't match it to an available tool. Try rephrasing your request.`,
-      );
-      this.storeConversationTurn(userId, text, "No tool match", parsedIntent);
+    // Cart views and checkout always go through the confirmation flow,
+    // never straight to a tool that could place an order. Multi-step
+    // requests fill the cart first; the agent loop hands over to it after.
+    if (CHECKOUT_INTENTS.includes(parsedIntent.intent) && CHECKOUT_SERVICES.includes(service as CheckoutService) && !parsedIntent.multiStep) {
+      await this.checkoutFlow.review(userId, chatId, service as CheckoutService);
+      this.storeConversationTurn(userId, text, "Showed cart for checkout", parsedIntent);
+      return;
+    }
+
+    // Recipes get one search per ingredient instead of a single vague search
+    if (parsedIntent.intent === "grocery_recipe" && service === "instamart") {
+      const dish = String(parsedIntent.parameters.dish ?? parsedIntent.originalQuery).trim();
+      const requested = Math.round(Number(parsedIntent.parameters.servings));
+      const servings = requested > 0 ? Math.min(requested, MAX_RECIPE_SERVINGS) : RECIPE_DEFAULT_SERVINGS;
+      await this.groceryBasket.buildFromRecipe(userId, chatId, dish, servings);
+      this.storeConversationTurn(userId, text, `Built a basket for ${dish}`, parsedIntent);
       return;
     }
 
-    // Step 7: Call MCP tool
+    // Shopping lists: one search per line, reviewed before anything is added
+    if (parsedIntent.intent === "grocery_list" && service === "instamart") {
+      const lines = parsedIntent.parameters.items;
+      const items = Array.isArray(lines) && lines.length > 0 && lines.every((line) => typeof line === "string")
+        ? this.shoppingListParser.parseLines(lines)
+        : this.shoppingListParser.parse(text);
+      await this.groceryBasket.buildFromList(userId, chatId, items);
+      this.storeConversationTurn(userId, text, `Built a basket for ${items.length} list items`, parsedIntent);
+      return;
+    }
+
+    // Bookings always go through the wizard. Without a restaurant to book,
+    // search first — Dineout result buttons lead into the wizard.
+    if (BOOKING_INTENTS.includes(parsedIntent.intent) && service === "dineout") {
+      if (await this.startBooking(userId, chatId, parsedIntent)) {
+        this.storeConversationTurn(userId, text, "Started table booking", parsedIntent);
+        return;
+      }
+      parsedIntent = { ...parsedIntent, intent: "dineout_search", toolName: null };
+    }
+
     try {
       const client = await this.mcpClientManager.getClient(userId, service);
 
       // Discover tools if not yet done
       if (!this.toolDiscovery.hasToolsForService(service, userId)) {
         await this.toolDiscovery.discoverToolsForUser(userId, service, client);
+      }
 
-        // Re-route with newly discovered tools
-        const freshTools = this.toolDiscovery.getTools(userId);
-        const rerouted = this.intentRouter.route(parsedIntent, freshTools);
-        if (rerouted) {
-          routed.toolName = rerouted.toolName;
-          routed.arguments = rerouted.arguments;
-        }
+      // Chained requests (search → menu → add to cart) go through the agent
+      // loop, which picks its own tools — no single-tool route needed
+      if (parsedIntent.multiStep) {
+        const summary = await this.agentLoop.run(userId, chatId, service, client, parsedIntent);
+        this.storeConversationTurn(userId, text, summary, parsedIntent);
+        return;
+      }
+
+      // Step 6: Route intent to MCP tool
+      const routed = this.intentRouter.route(parsedIntent, this.toolDiscovery.getTools(userId));
+      if (!routed) {
+        await this.bot.sendMessage(
+          chatId,
+          `I understood you want to ${parsedIntent.intent.replace(/_/g, " ")} on ${SERVICE_LABELS[service]}, but I couldn't match it to an available tool. Try rephrasing your request.`,
+        );
+        this.storeConversationTurn(userId, text, "No tool match", parsedIntent);
+        return;
       }
 
-      // Inject addressId if needed and available
-      this.injectAddressId(userId, service, routed.arguments);
+      // An explicit or carried-over toolName can still name an order-placing
+      // or booking tool; those only run behind their confirmation flows
+      if (needsConfirmation(routed.toolName)) {
+        await this.redirectConfirmationTool(userId, chatId, service, parsedIntent);
+        this.storeConversationTurn(userId, text, `Redirected ${routed.toolName} to its confirmation flow`, parsedIntent);
+        return;
+      }
+
+      // Fill in the address and location, then check the arguments against the tool's inputSchema
+      const validation = await this.prepareToolArguments(userId, service, text, routed.toolName, routed.arguments);
+      if (validation.errors.length > 0) {
+        const errors = validation.errors.slice(0, 5).map((e) => `• ${this.messageFormatter.escapeHtml(e)}`).join("\n");
+        await this.bot.sendMessage(chatId, MESSAGES.ERROR_INVALID_ARGUMENTS(errors), { parse_mode: "HTML" });
+        this.storeConversationTurn(userId, text, "Invalid tool arguments: " + validation.errors.join("; ").substring(0, 200), parsedIntent);
+        return;
+      }
+      routed.arguments = validation.value;
 
       logger.info("Calling MCP tool", {
         userId, service, toolName: routed.toolName,
@@ -331,6 +801,7 @@ export class TelegramBotApp {
         hasAddressId: !!routed.arguments.addressId,
       });
 
+      // Step 7: Call MCP tool
       const toolResult = await this.toolInvoker.invokeWithRetry(
         client,
         service,
@@ -353,7 +824,7 @@ export class TelegramBotApp {
           const retryResult = await this.retryWithAddress(userId, service, client, routed.toolName, routed.arguments);
           if (retryResult && !retryResult.isError) {
             const filtered = this.resultFilter.applyFilters(retryResult, parsedIntent.filters);
-            const formatted = this.messageFormatter.formatResults(service, parsedIntent.intent, filtered, parsedIntent.originalQuery);
+            const formatted = this.formatFirstPage(userId, service, parsedIntent, filtered);
             const chunks = this.messageFormatter.splitMessage(formatted.text);
             for (let i = 0; i < chunks.length; i++) {
               const isLast = i === chunks.length - 1;
@@ -380,12 +851,7 @@ export class TelegramBotApp {
       const filtered = this.resultFilter.applyFilters(toolResult, parsedIntent.filters);
 
       // Step 9: Format for Telegram
-      const formatted = this.messageFormatter.formatResults(
-        service,
-        parsedIntent.intent,
-        filtered,
-        parsedIntent.originalQuery,
-      );
+      const formatted = this.formatFirstPage(userId, service, parsedIntent, filtered);
 
       // Step 10: Send response (handle long messages)
       const chunks = this.messageFormatter.splitMessage(formatted.text);
@@ -427,77 +893,62 @@ export class TelegramBotApp {
   }
 
   /**
-   * After auth, try to find an address-related tool and fetch the user's default address.
+   * Send a request that routed to an order-placing or booking tool to the
+   * flow that asks the user first: the bill review, or the booking wizard.
    */
-  private async autoFetchAddress(
-    userId: number,
-    service: SwiggyService,
-    client: import("@modelcontextprotocol/sdk/client/index.js").Client,
-    tools: DiscoveredTool[],
-  ): Promise<void> {
-    // Already have an address cached
-    if (this.sessionStore.getAddressId(userId, service)) return;
-
-    const addressTool = tools.find((t) => {
-      const name = t.tool.name.toLowerCase();
-      const desc = (t.tool.description ?? "").toLowerCase();
-      return name.includes("address") || name.includes("location") ||
-        desc.includes("address") || desc.includes("saved location");
-    });
-
-    if (!addressTool) {
-      logger.debug("No address tool found for service", { userId, service });
+  private async redirectConfirmationTool(userId: number, chatId: number, service: SwiggyService, intent: ParsedIntent): Promise<void> {
+    if (CHECKOUT_SERVICES.includes(service as CheckoutService)) {
+      await this.checkoutFlow.review(userId, chatId, service as CheckoutService);
       return;
     }
 
-    try {
-      const result = await this.toolInvoker.invoke(client, service, addressTool.tool.name, {});
-      const text = result.content
-        .filter((c) => c.type === "text")
-        .map((c) => c.text ?? "")
-        .join("\n");
+    if (!(await this.startBooking(userId, chatId, intent))) {
+      await this.bot.sendMessage(chatId, "Tell me which restaurant to book — search for one first, then tap its Book button.");
+    }
+  }
 
-      logger.info("Address tool response", { userId, service, isError: result.isError, text: text.substring(0, 500) });
+  /**
+   * Open the booking wizard for the restaurant the intent names. Returns
+   * false when it doesn't name one.
+   */
+  private async startBooking(userId: number, chatId: number, intent: ParsedIntent): Promise<boolean> {
+    const params = intent.parameters;
+    const restaurantId = params.restaurantId ?? params.restaurant_id;
+    if (restaurantId == null) return false;
+    const name = params.restaurantName ?? params.restaurant_name ?? "Restaurant";
+    const guests = Number(params.party_size ?? params.guests ?? params.partySize) || undefined;
+    await this.dineoutWizard.start(userId, chatId, String(restaurantId), String(name), guests);
+    return true;
+  }
 
-      if (result.isError) {
-        logger.warn("Address tool returned error", { userId, service, error: text });
-        return;
-      }
+  /**
+   * Inject the address and location, then validate against the tool's
+   * inputSchema (coercing types and filling defaults). Arguments that still
+   * don't fit get one repair round trip through the model before we give up.
+   */
+  private async prepareToolArguments(
+    userId: number,
+    service: SwiggyService,
+    userMessage: string,
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<SchemaValidation<Record<string, unknown>>> {
+    this.injectAddressId(userId, service, args);
+    this.injectLocation(userId, service, toolName, args);
 
-      const parsed = JSON.parse(text);
-
-      // Handle various Swiggy response shapes
-      let addresses: Record<string, unknown>[];
-      if (Array.isArray(parsed)) {
-        addresses = parsed;
-      } else if (typeof parsed === "object" && parsed !== null) {
-        addresses =
-          (parsed.addresses as Record<string, unknown>[]) ??
-          (parsed.data as Record<string, unknown>[]) ??
-          (parsed.items as Record<string, unknown>[]) ??
-          (parsed.results as Record<string, unknown>[]) ??
-          // If it's a single address object with an ID field, wrap it
-          (parsed.success === false ? [] : [parsed]);
-      } else {
-        addresses = [];
-      }
+    const tool = this.toolDiscovery.getToolsForService(service, userId).find((t) => t.tool.name === toolName);
+    if (!tool) return { value: args, errors: [] };
 
-      logger.info("Parsed addresses", { userId, service, count: addresses.length, firstAddress: addresses[0] ? JSON.stringify(addresses[0]).substring(0, 300) : "none" });
+    const validation = validateSchema<Record<string, unknown>>(args, tool.tool.inputSchema, "arguments");
+    if (validation.errors.length === 0) return validation;
 
-      if (addresses.length > 0) {
-        // Try to extract addressId from first address, checking many possible field names
-        const addr = addresses[0];
-        const id = this.extractAddressId(addr);
-        if (id) {
-          this.sessionStore.saveAddressId(userId, service, id);
-          logger.info("Auto-fetched addressId", { userId, service, addressId: id });
-        } else {
-          logger.warn("Could not extract addressId from address object", { userId, service, keys: Object.keys(addr) });
-        }
-      }
-    } catch (err) {
-      logger.warn("Auto-fetch address failed", { userId, service, error: String(err) });
-    }
+    logger.warn("Tool arguments failed validation, asking for a repair", { userId, service, toolName, errors: validation.errors });
+    const repaired = await this.nlu.repairToolArguments(userMessage, tool, args, validation.errors);
+    if (!repaired) return validation;
+
+    this.injectAddressId(userId, service, repaired);
+    this.injectLocation(userId, service, toolName, repaired);
+    return validateSchema<Record<string, unknown>>(repaired, tool.tool.inputSchema, "arguments");
   }
 
   /**
@@ -517,25 +968,20 @@ export class TelegramBotApp {
   }
 
   /**
-   * Extract an address ID from an address object, checking many possible field names.
+   * Inject the shared location's coordinates into tools that accept them,
+   * leaving any coordinates the intent already carries.
    */
-  private extractAddressId(addr: Record<string, unknown>): string {
-    // Direct ID fields
-    for (const key of ["id", "addressId", "address_id", "addressid", "Id", "ID"]) {
-      if (addr[key] != null && String(addr[key]) !== "") {
-        return String(addr[key]);
-      }
-    }
-    // Nested: addr.address.id, etc.
-    if (typeof addr.address === "object" && addr.address !== null) {
-      const nested = addr.address as Record<string, unknown>;
-      for (const key of ["id", "addressId", "address_id"]) {
-        if (nested[key] != null && String(nested[key]) !== "") {
-          return String(nested[key]);
-        }
-      }
+  private injectLocation(
+    userId: number,
+    service: SwiggyService,
+    toolName: string,
+    args: Record<string, unknown>,
+  ): void {
+    const tool = this.toolDiscovery.getToolsForService(service, userId).find((t) => t.tool.name === toolName);
+    if (!tool) return;
+    for (const [key, value] of Object.entries(this.addressPicker.buildLocationArgs(userId, service, tool))) {
+      if (args[key] === undefined) args[key] = value;
     }
-    return "";
   }
 
   /**
@@ -549,11 +995,7 @@ export class TelegramBotApp {
     args: Record<string, unknown>,
   ): Promise<import("../types/mcp.types.js").ToolCallResult | null> {
     try {
-      // Discover address tools and try to fetch
-      const tools = this.toolDiscovery.getToolsForService(service, userId);
-      await this.autoFetchAddress(userId, service, client, tools);
-
-      const addressId = this.sessionStore.getAddressId(userId, service);
+      const addressId = await this.addressPicker.ensureAddress(userId, service, client);
       if (!addressId) return null;
 
       args.addressId = addressId;
@@ -564,6 +1006,78 @@ export class TelegramBotApp {
     }
   }
 
+  /**
+   * Format the first page of a result. When there's more than one page the
+   * full result is kept so Previous/Next can page through it in place.
+   */
+  private formatFirstPage(
+    userId: number,
+    service: SwiggyService,
+    parsedIntent: ParsedIntent,
+    filtered: FilteredResult,
+  ): FormattedMessage {
+    const deliveringTo = this.sessionStore.getAddressLabel(userId, service);
+    const resultsId = this.messageFormatter.pageCount(filtered) > 1
+      ? this.resultPages.save({
+          userId,
+          service,
+          intent: parsedIntent.intent,
+          query: parsedIntent.originalQuery,
+          result: filtered,
+          deliveringTo,
+        })
+      : undefined;
+
+    return this.messageFormatter.formatResults(
+      service,
+      parsedIntent.intent,
+      filtered,
+      parsedIntent.originalQuery,
+      this.callbackRegistry.forUser(userId),
+      { page: 0, resultsId, deliveringTo },
+    );
+  }
+
+  /**
+   * Re-render a stored result set at another page by editing the message.
+   */
+  private async showResultPage(
+    userId: number,
+    chatId: number,
+    message: TelegramBot.Message,
+    resultsId: string,
+    page: number,
+  ): Promise<void> {
+    const stored = this.resultPages.get(resultsId, userId);
+    if (!stored) {
+      await this.removeKeyboard(chatId, message);
+      await this.bot.sendMessage(chatId, "These results have expired. Please search again.");
+      return;
+    }
+
+    const lastPage = this.messageFormatter.pageCount(stored.result) - 1;
+    const formatted = this.messageFormatter.formatResults(
+      stored.service,
+      stored.intent,
+      stored.result,
+      stored.query,
+      this.callbackRegistry.forUser(userId),
+      { page: Math.min(Math.max(0, page), lastPage), resultsId, deliveringTo: stored.deliveringTo },
+    );
+
+    try {
+      await this.bot.editMessageText(formatted.text, {
+        chat_id: chatId,
+        message_id: message.message_id,
+        parse_mode: formatted.parseMode,
+        reply_markup: formatted.replyMarkup,
+      });
+    } catch (err) {
+      // A double-tap re-renders the same page, which Telegram rejects
+      if (!String(err).includes("message is not modified")) throw err;
+    }
+  }
+
   private storeConversationTurn(
     userId: number,
     userMessage: string,
@@ -14,10 +14,95 @@ export const SERVICE_LABELS: Record<SwiggyService, string> = {
 
 export const VALID_SERVICES: SwiggyService[] = ["food", "instamart", "dineout"];
 
+export const DEFAULT_PROFILE_NAME = "default";
+
 export const TOOL_CACHE_TTL_MS = 3600000; // 1 hour
 
 export const OAUTH_FLOW_TIMEOUT_MS = 300000; // 5 minutes
 
+export const OAUTH_FLOW_SWEEP_INTERVAL_MS = 30000; // 30 seconds
+
+export const OAUTH_EXPIRED_FLOW_GRACE_MS = 3600000; // late callbacks still get the "expired" page for 1 hour
+
+export const TOKEN_REFRESH_AHEAD_MS = 300000; // refresh 5 minutes before expiry
+
+export const TOKEN_REFRESH_CHECK_INTERVAL_MS = 60000; // 1 minute
+
+export const CHECKOUT_CONFIRM_TTL_MS = 600000; // 10 minutes
+
+// Tools that place an order or book a table. They only run behind a user
+// confirmation (CheckoutFlow, DineoutWizard) and are never offered to the model.
+export const CHECKOUT_TOOL_PATTERNS = [
+  /place_?\w*order/i,
+  /checkout/i,
+  /(create|confirm)_?\w*order/i,
+  /(submit|pay)_?\w*order/i,
+];
+
+export const BOOK_TOOL_PATTERNS = [
+  /book_?\w*table/i,
+  /^book/i,
+  /reserv/i,
+  /(create|make|confirm)_?\w*booking/i,
+];
+
+export const CONFIRMATION_TOOL_PATTERNS = [...CHECKOUT_TOOL_PATTERNS, ...BOOK_TOOL_PATTERNS];
+
+// Tools the menu, basket and reorder flows call, most specific first
+export const MENU_TOOL_PATTERNS = [/menu/i, /restaurant_?(details|items)/i];
+
+export const PRODUCT_SEARCH_TOOL_PATTERNS = [/search_?\w*product/i, /search/i, /find/i];
+
+export const ADD_TO_CART_TOOL_PATTERNS = [/add_?\w*(to_?)?cart/i, /update_?\w*cart/i, /cart_?(add|update)/i];
+
+export const CALLBACK_TOKEN_TTL_MS = 86400000; // 24 hours
+
+export const CALLBACK_REGISTRY_MAX_ENTRIES = 100000;
+
+export const RESULT_PAGES_TTL_MS = 3600000; // 1 hour
+
+export const MAX_RESULT_SETS_PER_USER = 20;
+
+export const MENU_SESSION_TTL_MS = 900000; // 15 minutes
+
+export const MAX_MENU_BUTTONS = 20;
+
+export const MAX_DISH_QUANTITY = 10;
+
+export const DINEOUT_TIMEZONE = "Asia/Kolkata";
+
+export const DINEOUT_BOOKING_DAYS = 7;
+
+export const DINEOUT_PARTY_SIZES = [1, 2, 3, 4, 5, 6, 8, 10];
+
+export const BOOKING_WIZARD_TTL_MS = 900000; // 15 minutes
+
+export const GROCERY_BASKET_TTL_MS = 1800000; // 30 minutes
+
+export const RECIPE_DEFAULT_SERVINGS = 2;
+
+export const MAX_RECIPE_SERVINGS = 20;
+
+export const MAX_BASKET_ITEMS = 12;
+
+export const BASKET_CANDIDATES_PER_ITEM = 5;
+
+export const MAX_FAVOURITES = 30;
+
+export const MAX_ORDER_HISTORY = 10;
+
+// A shared location this close to a saved address picks that address
+export const LOCATION_MATCH_RADIUS_M = 300;
+
+// Delay before each order-status poll; the last one repeats until the order finishes
+export const ORDER_TRACKING_BACKOFF_MS = [30000, 60000, 120000, 180000, 300000];
+
+// Local models can be slow; give up on a single completion after this
+export const NLU_REQUEST_TIMEOUT_MS = 60000; // 1 minute
+
+// Tool output passed back to the model per agent step
+export const AGENT_RESULT_MAX_CHARS = 6000;
+
 export const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
 
 export const MAX_RESULTS_PER_MESSAGE = 5;
@@ -45,20 +130,25 @@ Use /help for more commands.`,
 /logout &lt;service&gt; - Disconnect a service
 /status - Check which services are connected
 /details - Show account details, addresses, and available tools
+/address [service] - Choose the delivery address to use (or just share a location 📎)
+/account - List, add, or switch between linked Swiggy accounts
+/reorder - Reorder a past order or a saved favourite
 /clear - Clear conversation history
+/deletemydata - Revoke your logins and delete everything stored about you
 /help - Show this message
 
 <b>Natural language examples:</b>
 - "I need a burger under 200"
 - "Find veg pizza near me"
 - "Order milk, bread, and eggs"
+- "Add a paneer roll from the closest place to my cart"
 - "Book a table for 4 this Saturday"
 
 <b>Follow-up queries:</b>
 After a search, you can refine:
 - "Make it vegetarian"
 - "Under 150 instead"
-- "Show more results"`,
+Use the ⬅️ / ➡️ buttons under a result list to see more.`,
 
   AUTH_REQUIRED: (service: string) =>
     `You need to connect your Swiggy account for <b>${service}</b> first.\nUse /login ${service} to authenticate.`,
@@ -69,11 +159,19 @@ After a search, you can refine:
   AUTH_EXPIRED: (service: string) =>
     `Your <b>${service}</b> session has expired. Please /login ${service} again.`,
 
+  LOGIN_LINK_EXPIRED: (service: string) =>
+    `Your <b>${service}</b> login link expired before it was used.\nTap below to get a new one.`,
+
+  AUTH_REFRESH_FAILED: (service: string) =>
+    `Your <b>${service}</b> session has expired and couldn't be renewed automatically.\nTap the button below to log in again.`,
+
   NO_RESULTS: (query: string, filters: string[]) =>
     `No results found for "<b>${query}</b>"${filters.length ? `\n\nFilters applied: ${filters.join(", ")}` : ""}\n\nTry relaxing your filters or searching for something different.`,
 
   ERROR_GENERIC: "Something went wrong. Please try again.",
   ERROR_REPHRASE: "I had trouble understanding that. Could you rephrase your request?",
+  ERROR_INVALID_ARGUMENTS: (errors: string) =>
+    `I couldn't put together a valid request for that:\n\n${errors}\n\nTry rephrasing with a bit more detail.`,
   ERROR_RATE_LIMIT: "You're sending messages too fast. Please wait a moment.",
   ERROR_SERVICE_DOWN: "Swiggy is experiencing issues right now. Please try again later.",
 };
@@ -2,10 +2,28 @@ import "dotenv/config";
 
 export interface AppConfig {
   telegramBotToken: string;
-  geminiApiKey: string;
+  telegramMode: "polling" | "webhook";
+  telegramWebhookSecret?: string;
+  /** Which NluProvider parses messages */
+  nluProvider: "gemini" | "openai";
+  /** Required when nluProvider is "gemini" */
+  geminiApiKey?: string;
   geminiModel: string;
+  /** Chat completions base URL, e.g. a local Ollama or llama.cpp server */
+  openAiBaseUrl: string;
+  /** Required when nluProvider is "openai" */
+  openAiModel?: string;
+  openAiApiKey?: string;
   oauthCallbackPort: number;
   oauthCallbackHost: string;
+  /** Interface the callback server binds to (all interfaces when unset) */
+  oauthCallbackBindHost?: string;
+  /** Externally reachable base URL, used for redirect_uris */
+  oauthPublicBaseUrl: string;
+  /** Full public redirect URL: `${oauthPublicBaseUrl}/callback` */
+  oauthCallbackUrl: string;
+  oauthTlsCertPath?: string;
+  oauthTlsKeyPath?: string;
   swiggyMcpFoodUrl: string;
   swiggyMcpInstamartUrl: string;
   swiggyMcpDineoutUrl: string;
@@ -13,6 +31,16 @@ export interface AppConfig {
   rateLimitWindowMs: number;
   maxConversationTurns: number;
   conversationTtlMs: number;
+  /** Stop following an order this long after it was placed */
+  orderTrackingMaxMs: number;
+  /** Tool calls the agent loop may make for one message */
+  agentMaxSteps: number;
+  sessionStoreBackend: "memory" | "file";
+  sessionStorePath: string;
+  tokenEncryptionKey?: string;
+  tokenEncryptionPreviousKeys: string[];
+  /** Telegram user IDs allowed to run admin commands */
+  adminUserIds: number[];
   logLevel: string;
   nodeEnv: string;
 }
@@ -29,13 +57,73 @@ function optional(name: string, fallback: string): string {
   return process.env[name] ?? fallback;
 }
 
+function oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+  const value = optional(name, fallback);
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Invalid value for ${name}: "${value}" (expected one of: ${allowed.join(", ")})`);
+  }
+  return value as T;
+}
+
 export function loadConfig(): AppConfig {
+  const nodeEnv = optional("NODE_ENV", "development");
+  const tokenEncryptionKey = process.env.TOKEN_ENCRYPTION_KEY || undefined;
+
+  // Stored tokens can place real orders — refuse to run production without encryption
+  if (nodeEnv === "production" && !tokenEncryptionKey) {
+    throw new Error(
+      "Missing required environment variable: TOKEN_ENCRYPTION_KEY (required when NODE_ENV=production). " +
+      "Generate one with: openssl rand -hex 32",
+    );
+  }
+
+  const oauthCallbackPort = parseInt(optional("OAUTH_CALLBACK_PORT", "3000"), 10);
+  const oauthCallbackHost = optional("OAUTH_CALLBACK_HOST", "localhost");
+  const oauthTlsCertPath = process.env.OAUTH_TLS_CERT_PATH || undefined;
+  const oauthTlsKeyPath = process.env.OAUTH_TLS_KEY_PATH || undefined;
+  if (!!oauthTlsCertPath !== !!oauthTlsKeyPath) {
+    throw new Error("OAUTH_TLS_CERT_PATH and OAUTH_TLS_KEY_PATH must be set together");
+  }
+
+  const defaultBaseUrl = `${oauthTlsCertPath ? "https" : "http"}://${oauthCallbackHost}:${oauthCallbackPort}`;
+  const oauthPublicBaseUrl = (process.env.OAUTH_PUBLIC_BASE_URL || defaultBaseUrl).replace(/\/+$/, "");
+  try {
+    new URL(oauthPublicBaseUrl);
+  } catch {
+    throw new Error(`Invalid value for OAUTH_PUBLIC_BASE_URL: "${oauthPublicBaseUrl}"`);
+  }
+
+  const nluProvider = oneOf("NLU_PROVIDER", ["gemini", "openai"] as const, "gemini");
+  const openAiBaseUrl = optional("OPENAI_BASE_URL", "http://localhost:11434/v1").replace(/\/+$/, "");
+  try {
+    new URL(openAiBaseUrl);
+  } catch {
+    throw new Error(`Invalid value for OPENAI_BASE_URL: "${openAiBaseUrl}"`);
+  }
+
+  const telegramMode = oneOf("TELEGRAM_MODE", ["polling", "webhook"] as const, "polling");
+  const telegramWebhookSecret = telegramMode === "webhook" ? required("TELEGRAM_WEBHOOK_SECRET") : undefined;
+  if (telegramWebhookSecret && !/^[A-Za-z0-9_-]{1,256}$/.test(telegramWebhookSecret)) {
+    throw new Error("Invalid value for TELEGRAM_WEBHOOK_SECRET: use 1-256 characters from A-Z, a-z, 0-9, _ and -");
+  }
+
   return {
     telegramBotToken: required("TELEGRAM_BOT_TOKEN"),
-    geminiApiKey: required("GEMINI_API_KEY"),
+    telegramMode,
+    telegramWebhookSecret,
+    nluProvider,
+    geminiApiKey: nluProvider === "gemini" ? required("GEMINI_API_KEY") : process.env.GEMINI_API_KEY || undefined,
     geminiModel: optional("GEMINI_MODEL", "gemini-2.5-flash"),
-    oauthCallbackPort: parseInt(optional("OAUTH_CALLBACK_PORT", "3000"), 10),
-    oauthCallbackHost: optional("OAUTH_CALLBACK_HOST", "localhost"),
+    openAiBaseUrl,
+    openAiModel: nluProvider === "openai" ? required("OPENAI_MODEL") : process.env.OPENAI_MODEL || undefined,
+    openAiApiKey: process.env.OPENAI_API_KEY || undefined,
+    oauthCallbackPort,
+    oauthCallbackHost,
+    oauthCallbackBindHost: process.env.OAUTH_CALLBACK_BIND_HOST || undefined,
+    oauthPublicBaseUrl,
+    oauthCallbackUrl: `${oauthPublicBaseUrl}/callback`,
+    oauthTlsCertPath,
+    oauthTlsKeyPath,
     swiggyMcpFoodUrl: optional("SWIGGY_MCP_FOOD_URL", "https://mcp.swiggy.com/food"),
     swiggyMcpInstamartUrl: optional("SWIGGY_MCP_INSTAMART_URL", "https://mcp.swiggy.com/im"),
     swiggyMcpDineoutUrl: optional("SWIGGY_MCP_DINEOUT_URL", "https://mcp.swiggy.com/dineout"),
@@ -43,7 +131,20 @@ export function loadConfig(): AppConfig {
     rateLimitWindowMs: parseInt(optional("RATE_LIMIT_WINDOW_MS", "60000"), 10),
     maxConversationTurns: parseInt(optional("MAX_CONVERSATION_TURNS", "50"), 10),
     conversationTtlMs: parseInt(optional("CONVERSATION_TTL_MS", "3600000"), 10),
+    orderTrackingMaxMs: parseInt(optional("ORDER_TRACKING_MAX_MS", "10800000"), 10),
+    agentMaxSteps: parseInt(optional("AGENT_MAX_STEPS", "6"), 10),
+    sessionStoreBackend: oneOf("SESSION_STORE_BACKEND", ["memory", "file"] as const, "file"),
+    sessionStorePath: optional("SESSION_STORE_PATH", "./data/sessions.jsonl"),
+    tokenEncryptionKey,
+    tokenEncryptionPreviousKeys: optional("TOKEN_ENCRYPTION_PREVIOUS_KEYS", "")
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean),
+    adminUserIds: optional("ADMIN_USER_IDS", "")
+      .split(",")
+      .map((id) => parseInt(id.trim(), 10))
+      .filter((id) => !isNaN(id)),
     logLevel: optional("LOG_LEVEL", "info"),
-    nodeEnv: optional("NODE_ENV", "development"),
+    nodeEnv,
   };
 }
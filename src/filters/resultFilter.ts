@@ -1,5 +1,54 @@
 import type { ToolCallResult, FilteredResult } from "../types/mcp.types.js";
 import type { ResultFilters } from "../types/gemini.types.js";
+import type { CartSummary, CartLine, BillLine, MenuCategory, MenuItem, OrderStage, OrderStatus } from "../types/order.types.js";
+import type { DineoutSlot } from "../types/dineout.types.js";
+import type { SavedAddress } from "../types/user.types.js";
+import type { PackSize, ProductMatch, UnitBase } from "../types/basket.types.js";
+
+// Bill fields Swiggy's cart tools are known to return, in display order
+const BILL_FIELDS: Array<{ label: string; keys: string[]; discount?: boolean }> = [
+  { label: "Item total", keys: ["itemTotal", "item_total", "subTotal", "subtotal"] },
+  { label: "Delivery fee", keys: ["deliveryFee", "delivery_fee", "deliveryCharges", "deliveryCharge"] },
+  { label: "Packaging", keys: ["packagingCharges", "packaging_charges", "packingCharges"] },
+  { label: "Platform fee", keys: ["platformFee", "platform_fee", "handlingFee", "handling_fee"] },
+  { label: "Taxes", keys: ["taxes", "tax", "gst", "totalTax"] },
+  { label: "Discount", keys: ["discount", "totalDiscount", "couponDiscount", "savings"], discount: true },
+];
+
+// Unit spellings seen in Instamart pack sizes and recipe quantities → base unit and factor
+const UNIT_FACTORS: Record<string, { base: UnitBase; factor: number }> = {
+  mg: { base: "g", factor: 0.001 },
+  g: { base: "g", factor: 1 }, gm: { base: "g", factor: 1 }, gms: { base: "g", factor: 1 },
+  gram: { base: "g", factor: 1 }, grams: { base: "g", factor: 1 },
+  kg: { base: "g", factor: 1000 }, kgs: { base: "g", factor: 1000 },
+  ml: { base: "ml", factor: 1 },
+  l: { base: "ml", factor: 1000 }, ltr: { base: "ml", factor: 1000 },
+  litre: { base: "ml", factor: 1000 }, litres: { base: "ml", factor: 1000 },
+  liter: { base: "ml", factor: 1000 }, liters: { base: "ml", factor: 1000 },
+  tsp: { base: "ml", factor: 5 }, tbsp: { base: "ml", factor: 15 },
+  cup: { base: "ml", factor: 240 }, cups: { base: "ml", factor: 240 },
+  pc: { base: "pc", factor: 1 }, pcs: { base: "pc", factor: 1 },
+  piece: { base: "pc", factor: 1 }, pieces: { base: "pc", factor: 1 },
+  unit: { base: "pc", factor: 1 }, units: { base: "pc", factor: 1 },
+  no: { base: "pc", factor: 1 }, nos: { base: "pc", factor: 1 },
+  dozen: { base: "pc", factor: 12 },
+};
+
+// Status wording → stage, checked in order ("out for delivery" before "delivered")
+// Matched against a whole status token ("OUT_FOR_DELIVERY", "Order Placed"),
+// never against free text — "will be delivered by 8:30" is not delivered
+const ORDER_STAGE_PATTERNS: Array<{ stage: OrderStage; pattern: RegExp }> = [
+  { stage: "cancelled", pattern: /^(order_)?(cancel|reject|fail|refund)/ },
+  { stage: "out_for_delivery", pattern: /^(order_)?(out_for_delivery|picked_up|dispatched|on_the_way|en_route|arriving)/ },
+  { stage: "delivered", pattern: /^(order_)?(delivered|delivery_complete(d)?|complete(d)?)$/ },
+  { stage: "preparing", pattern: /^(order_)?(prepar|cooking|accepted|confirmed|pack(ing|ed)|processing)/ },
+  { stage: "placed", pattern: /^(order_)?(placed|created|pending|received|new)$/ },
+];
+
+// "Status: Out for delivery" in a plain-text result
+const STATUS_LINE_PATTERN = /^\W*(?:order[\s_-]*)?status\s*[:=-]\s*([a-z][a-z _-]{0,39})\s*$/im;
+
+const TOTAL_KEYS = ["toPay", "to_pay", "grandTotal", "grand_total", "amountPayable", "finalAmount", "totalAmount", "total"];
 
 export class ResultFilter {
   /**
@@ -116,6 +165,419 @@ export class ResultFilter {
     };
   }
 
+  /**
+   * Parse a cart tool result into line items and the server-side bill.
+   * Returns null when the result isn't JSON, so callers can show it raw.
+   */
+  parseCart(toolResult: ToolCallResult): CartSummary | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const root = parsed as Record<string, unknown>;
+    const cart = (root.cart ?? root.data ?? root) as Record<string, unknown>;
+
+    const rawItems =
+      (cart.items as Record<string, unknown>[]) ??
+      (cart.cartItems as Record<string, unknown>[]) ??
+      (cart.lineItems as Record<string, unknown>[]) ??
+      (cart.products as Record<string, unknown>[]) ??
+      [];
+    const items: CartLine[] = (Array.isArray(rawItems) ? rawItems : []).map((item) => {
+      const id = item.id ?? item.itemId ?? item.item_id ?? item.productId ?? item.product_id;
+      return {
+        id: id != null ? String(id) : undefined,
+        name: String(item.name ?? item.itemName ?? item.productName ?? item.title ?? "Item"),
+        quantity: this.extractNumber(item, ["quantity", "qty", "count"]) ?? 1,
+        price: this.extractNumber(item, ["finalPrice", "total", "price", "cost"]) ?? undefined,
+      };
+    });
+
+    const billSource = (cart.bill ?? cart.billDetails ?? cart.bill_details ?? cart.pricing ?? cart) as
+      Record<string, unknown> | Array<Record<string, unknown>>;
+
+    let bill: BillLine[];
+    if (Array.isArray(billSource)) {
+      // Already a list of { label, amount } rows
+      bill = billSource
+        .map((row) => ({
+          label: String(row.label ?? row.name ?? row.title ?? ""),
+          amount: this.extractNumber(row, ["amount", "value", "price"]) ?? NaN,
+        }))
+        .filter((row) => row.label && !isNaN(row.amount));
+    } else {
+      bill = [];
+      for (const field of BILL_FIELDS) {
+        const amount = this.extractNumber(billSource, field.keys);
+        if (amount === null || amount === 0) continue;
+        bill.push({ label: field.label, amount: field.discount ? -Math.abs(amount) : amount });
+      }
+    }
+
+    const total =
+      (Array.isArray(billSource) ? null : this.extractNumber(billSource, TOTAL_KEYS)) ??
+      this.extractNumber(cart, TOTAL_KEYS);
+
+    const restaurant = (cart.restaurant ?? root.restaurant) as Record<string, unknown> | undefined;
+    const restaurantId = restaurant?.id ?? cart.restaurantId ?? cart.restaurant_id;
+    const restaurantName = restaurant?.name ?? cart.restaurantName ?? cart.restaurant_name;
+
+    return {
+      items,
+      bill,
+      total,
+      restaurantId: restaurantId != null ? String(restaurantId) : undefined,
+      restaurantName: typeof restaurantName === "string" ? restaurantName : undefined,
+    };
+  }
+
+  /**
+   * Parse a menu tool result into categories of dishes. Accepts nested
+   * categories or a flat item list with a category field on each item.
+   * Returns null when the result isn't a recognisable menu.
+   */
+  parseMenu(toolResult: ToolCallResult): { restaurantName?: string; categories: MenuCategory[] } | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const root = (Array.isArray(parsed) ? { items: parsed } : parsed) as Record<string, unknown>;
+    const menu = (root.menu ?? root.data ?? root) as Record<string, unknown>;
+    const restaurant = (root.restaurant ?? menu.restaurant) as Record<string, unknown> | undefined;
+    const restaurantName = (restaurant?.name ?? root.restaurantName ?? menu.restaurantName) as string | undefined;
+
+    const rawCategories = (menu.categories ?? menu.sections ?? menu.menuCategories) as Record<string, unknown>[] | undefined;
+    let categories: MenuCategory[];
+
+    if (Array.isArray(rawCategories)) {
+      categories = rawCategories.map((cat) => {
+        const rawItems = (cat.items ?? cat.dishes ?? cat.itemCards ?? []) as Record<string, unknown>[];
+        return {
+          name: String(cat.name ?? cat.title ?? "Menu"),
+          items: Array.isArray(rawItems) ? rawItems.map((item) => this.toMenuItem(item)) : [],
+        };
+      });
+    } else {
+      const rawItems = (menu.items ?? menu.dishes) as Record<string, unknown>[] | undefined;
+      if (!Array.isArray(rawItems)) return null;
+
+      const byCategory = new Map<string, MenuItem[]>();
+      for (const item of rawItems) {
+        const name = String(item.category ?? item.categoryName ?? "Menu");
+        if (!byCategory.has(name)) byCategory.set(name, []);
+        byCategory.get(name)!.push(this.toMenuItem(item));
+      }
+      categories = [...byCategory.entries()].map(([name, items]) => ({ name, items }));
+    }
+
+    categories = categories.filter((c) => c.items.length > 0);
+    return { restaurantName, categories };
+  }
+
+  /**
+   * Parse a Dineout slot tool result into bookable slots. Accepts a flat
+   * list or slots grouped by meal (e.g. lunch / dinner). Unavailable slots
+   * are dropped. Returns null when the result isn't JSON.
+   */
+  parseSlots(toolResult: ToolCallResult): DineoutSlot[] | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      return null;
+    }
+
+    const collect = (value: unknown): unknown[] => {
+      if (Array.isArray(value)) {
+        // A list of groups, each with its own slots
+        return value.flatMap((entry) =>
+          typeof entry === "object" && entry !== null && Array.isArray((entry as Record<string, unknown>).slots)
+            ? ((entry as Record<string, unknown>).slots as unknown[])
+            : [entry],
+        );
+      }
+      if (typeof value !== "object" || value === null) return [];
+      const obj = value as Record<string, unknown>;
+      const inner = obj.slots ?? obj.availableSlots ?? obj.timeSlots ?? obj.data;
+      if (inner !== undefined) return collect(inner);
+      // Grouped by meal: { lunch: [...], dinner: [...] }
+      return Object.values(obj).filter(Array.isArray).flatMap((group) => collect(group));
+    };
+
+    const slots: DineoutSlot[] = [];
+    for (const raw of collect(parsed)) {
+      if (typeof raw === "string") {
+        slots.push({ time: raw });
+        continue;
+      }
+      if (typeof raw !== "object" || raw === null) continue;
+      const slot = raw as Record<string, unknown>;
+      if (slot.available === false || slot.isAvailable === false) continue;
+
+      const time = slot.time ?? slot.slotTime ?? slot.startTime ?? slot.displayTime ?? slot.label;
+      if (time == null) continue;
+      const id = slot.id ?? slot.slotId ?? slot.slot_id;
+
+      let offer: string | undefined;
+      const rawOffer = slot.offer ?? slot.offerText ?? slot.discount ?? slot.deal;
+      if (typeof rawOffer === "string") {
+        offer = rawOffer;
+      } else if (typeof rawOffer === "object" && rawOffer !== null) {
+        const details = rawOffer as Record<string, unknown>;
+        offer = (details.title ?? details.description) as string | undefined;
+      }
+
+      slots.push({ id: id != null ? String(id) : undefined, time: String(time), offer: offer || undefined });
+    }
+    return slots;
+  }
+
+  /**
+   * Parse a product search result into products with parsed pack sizes.
+   * Returns null when the result isn't JSON.
+   */
+  parseProducts(toolResult: ToolCallResult): ProductMatch[] | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const root = parsed as Record<string, unknown>;
+    const rawItems = Array.isArray(parsed)
+      ? parsed
+      : (root.products ?? root.items ?? root.results ?? root.data ?? []) as unknown[];
+    if (!Array.isArray(rawItems)) return [];
+
+    const products: ProductMatch[] = [];
+    for (const raw of rawItems) {
+      if (typeof raw !== "object" || raw === null) continue;
+      const item = raw as Record<string, unknown>;
+      // Products with several pack sizes list them as variations
+      const variations = (item.variations ?? item.variants) as Record<string, unknown>[] | undefined;
+      const entries: Record<string, unknown>[] = Array.isArray(variations) && variations.length > 0
+        ? variations.map((v) => ({ ...item, ...v, name: v.name ?? item.name ?? item.productName }))
+        : [item];
+
+      for (const entry of entries) {
+        const id = entry.id ?? entry.productId ?? entry.product_id ?? entry.skuId ?? entry.itemId;
+        if (id == null) continue;
+        const name = String(entry.name ?? entry.productName ?? entry.displayName ?? entry.title ?? "Product");
+
+        const label = [entry.packSize, entry.pack_size, entry.quantity, entry.weight, entry.unit, entry.size]
+          .find((value): value is string => typeof value === "string" && value.trim() !== "");
+        const inStock = entry.inStock ?? entry.in_stock ?? entry.isAvailable ?? entry.available;
+
+        products.push({
+          id: String(id),
+          name,
+          price: this.extractNumber(entry, ["offerPrice", "finalPrice", "sellingPrice", "price", "mrp"]) ?? undefined,
+          packLabel: label,
+          pack: this.parsePackSize(label ?? name) ?? undefined,
+          inStock: entry.outOfStock === true ? false : inStock === undefined || (inStock !== false && inStock !== 0),
+        });
+      }
+    }
+    return products;
+  }
+
+  /**
+   * Parse an address tool result into the user's saved addresses. Accepts a
+   * bare list, a list under addresses / data / items / results, or a single
+   * address object. Entries without an id are dropped. Returns null when
+   * the result isn't JSON.
+   */
+  parseAddresses(toolResult: ToolCallResult): SavedAddress[] | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const root = parsed as Record<string, unknown>;
+    const rawItems = Array.isArray(parsed)
+      ? parsed
+      : root.success === false
+        ? []
+        : (root.addresses ?? root.data ?? root.items ?? root.results ?? [root]) as unknown[];
+    if (!Array.isArray(rawItems)) return [];
+
+    const addresses: SavedAddress[] = [];
+    for (const raw of rawItems) {
+      if (typeof raw !== "object" || raw === null) continue;
+      const entry = raw as Record<string, unknown>;
+      // Some servers wrap the details as { address: { id, ... } }
+      const nested = typeof entry.address === "object" && entry.address !== null
+        ? (entry.address as Record<string, unknown>)
+        : undefined;
+      const source = nested ?? entry;
+
+      const id = [entry.id, entry.addressId, entry.address_id, source.id, source.addressId, source.address_id]
+        .find((value) => value != null && String(value) !== "");
+      if (id == null) continue;
+
+      const label = entry.name ?? entry.label ?? entry.annotation ?? entry.type ?? entry.addressType ?? source.annotation;
+      const line = [typeof entry.address === "string" ? entry.address : undefined, source.fullAddress, source.formatted_address, source.address_line, source.addressLine1]
+        .find((value): value is string => typeof value === "string" && value.trim() !== "");
+      const isDefault = entry.isDefault ?? entry.is_default ?? entry.default ?? entry.selected ?? entry.isSelected;
+      // Coordinates sit on the address itself or under location / geo
+      const geo = [source.location, source.geo, source.coordinates]
+        .find((value): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value)) ?? source;
+      const lat = this.extractCoordinate(geo, ["lat", "latitude"]);
+      const lng = this.extractCoordinate(geo, ["lng", "lon", "long", "longitude"]);
+
+      addresses.push({
+        id: String(id),
+        label: typeof label === "string" && label.trim() ? label.trim() : "Address",
+        line,
+        isDefault: isDefault === true || isDefault === 1,
+        ...(lat !== undefined && lng !== undefined ? { lat, lng } : {}),
+      });
+    }
+    return addresses;
+  }
+
+  /**
+   * Read an order-status tool result. JSON results are searched for a status
+   * field (top level, or under order / data). Plain text is only classified
+   * when it is a bare status or has a "Status: …" line. Returns null when
+   * the result is empty.
+   */
+  parseOrderStatus(toolResult: ToolCallResult): OrderStatus | null {
+    const textContent = toolResult.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text ?? "")
+      .join("\n")
+      .trim();
+    if (!textContent) return null;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(textContent);
+    } catch {
+      const statusLine = STATUS_LINE_PATTERN.exec(textContent)?.[1];
+      return { stage: this.toOrderStage(statusLine ?? textContent), text: textContent.substring(0, 200) };
+    }
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const root = (Array.isArray(parsed) ? parsed[0] ?? {} : parsed) as Record<string, unknown>;
+    const order = (root.order ?? root.data ?? root) as Record<string, unknown>;
+    const rawStatus = [order, root]
+      .map((obj) => obj.status ?? obj.orderStatus ?? obj.order_status ?? obj.state ?? obj.currentStatus ?? obj.current_status)
+      .find((value) => value != null);
+    if (rawStatus == null) return { stage: null };
+
+    // Some servers nest the status as { code, message }
+    const status = typeof rawStatus === "object"
+      ? (rawStatus as Record<string, unknown>)
+      : { code: rawStatus };
+    const code = String(status.code ?? status.status ?? status.value ?? "");
+    const message = status.message ?? status.text ?? status.displayText ?? order.statusMessage ?? order.status_message;
+    const eta = order.eta ?? order.etaText ?? order.eta_text ?? order.deliveryTime ?? order.expectedDeliveryTime;
+
+    return {
+      stage: this.toOrderStage(code) ?? (typeof message === "string" ? this.toOrderStage(message) : null),
+      text: typeof message === "string" ? message : undefined,
+      eta: eta != null ? String(eta) : undefined,
+    };
+  }
+
+  /**
+   * Read an amount like "500 g", "1.5 L", "2 x 200 ml" or "6 pcs" into its
+   * base unit. Returns null when no known unit is found.
+   */
+  parsePackSize(label: string): PackSize | null {
+    const match = /(?:(\d+)\s*[x×]\s*)?(\d+(?:\.\d+)?)\s*([a-z]+)\b/i.exec(label);
+    if (!match) return null;
+    const unit = UNIT_FACTORS[match[3].toLowerCase()];
+    if (!unit) return null;
+
+    const multiplier = match[1] ? parseInt(match[1], 10) : 1;
+    const amount = multiplier * parseFloat(match[2]) * unit.factor;
+    return amount > 0 ? { amount, base: unit.base } : null;
+  }
+
+  private toMenuItem(raw: Record<string, unknown>): MenuItem {
+    // Some responses wrap each dish as { card: { info: {...} } }
+    const card = raw.card as Record<string, unknown> | undefined;
+    const item = ((card?.info as Record<string, unknown>) ?? raw.info ?? raw) as Record<string, unknown>;
+
+    const vegFlag = item.isVeg ?? item.veg ?? item.vegetarian;
+    const classifier = typeof item.vegClassifier === "string" ? item.vegClassifier.toUpperCase() : undefined;
+    const isVeg = typeof vegFlag === "boolean"
+      ? vegFlag
+      : typeof vegFlag === "number"
+        ? vegFlag === 1
+        : classifier ? classifier === "VEG" : undefined;
+
+    const inStock = item.inStock ?? item.isAvailable ?? item.available;
+
+    return {
+      id: String(item.id ?? item.itemId ?? item.item_id ?? ""),
+      name: String(item.name ?? item.itemName ?? "Item"),
+      price: this.extractNumber(item, ["finalPrice", "price", "defaultPrice", "cost"]) ?? undefined,
+      isVeg,
+      description: typeof item.description === "string" ? item.description : undefined,
+      inStock: inStock === undefined ? true : inStock !== false && inStock !== 0,
+    };
+  }
+
+  private toOrderStage(status: string): OrderStage | null {
+    const token = status.trim().toLowerCase().replace(/[\s-]+/g, "_");
+    // Status codes run to a few words at most; anything longer is a sentence
+    if (token.split("_").length > 4) return null;
+    return ORDER_STAGE_PATTERNS.find(({ pattern }) => pattern.test(token))?.stage ?? null;
+  }
+
+  /**
+   * Like extractNumber, but keeps the sign and decimal point and rejects
+   * anything that isn't a plausible coordinate.
+   */
+  private extractCoordinate(obj: Record<string, unknown>, keys: string[]): number | undefined {
+    for (const key of keys) {
+      const val = typeof obj[key] === "string" ? parseFloat(obj[key] as string) : obj[key];
+      if (typeof val === "number" && Number.isFinite(val) && Math.abs(val) <= 180) return val;
+    }
+    return undefined;
+  }
+
   private extractNumber(obj: Record<string, unknown>, keys: string[]): number | null {
     for (const key of keys) {
       const val = obj[key];
@@ -11,21 +11,31 @@ async function main(): Promise<void> {
   // Load and validate configuration
   const config = loadConfig();
   logger.info("Configuration loaded", {
-    geminiModel: config.geminiModel,
+    nluProvider: config.nluProvider,
+    nluModel: config.nluProvider === "openai" ? config.openAiModel : config.geminiModel,
     oauthCallbackPort: config.oauthCallbackPort,
+    oauthPublicBaseUrl: config.oauthPublicBaseUrl,
   });
 
-  // Start OAuth callback server
-  const callbackServer = new OAuthCallbackServer(config.oauthCallbackPort);
-  await callbackServer.start();
-
-  // Initialize Telegram bot application
+  // Initialize Telegram bot application (registers its update handlers)
   const botApp = new TelegramBotApp(config);
 
+  // OAuth callback server, which also receives webhook updates
+  const callbackServer = new OAuthCallbackServer(config.oauthCallbackPort, {
+    host: config.oauthCallbackBindHost,
+    tls: config.oauthTlsCertPath && config.oauthTlsKeyPath
+      ? { certPath: config.oauthTlsCertPath, keyPath: config.oauthTlsKeyPath }
+      : undefined,
+    telegramWebhookSecret: config.telegramWebhookSecret,
+  });
+  callbackServer.on("telegramUpdate", (update) => botApp.processUpdate(update));
+
   // Initialize token manager to bridge OAuth callbacks → bot notifications
-  const _tokenManager = new TokenManager(
+  const tokenManager = new TokenManager(
     botApp.getSessionStore(),
     callbackServer,
+    botApp.getMcpClientManager(),
+    botApp.getFlowManager(),
     async (event) => {
       const session = botApp.getSessionStore().getSession(event.userId);
       const chatId = session?.telegramChatId ?? event.chatId;
@@ -38,25 +48,32 @@ async function main(): Promise<void> {
         event.error,
       );
     },
+    (event) => {
+      botApp.handleReauthRequired(event.userId, event.chatId, event.service, event.authUrl).catch((err) => {
+        logger.error("Failed to send re-login prompt", { userId: event.userId, error: String(err) });
+      });
+    },
     {
       food: config.swiggyMcpFoodUrl,
       instamart: config.swiggyMcpInstamartUrl,
       dineout: config.swiggyMcpDineoutUrl,
     },
-    config.oauthCallbackPort,
-    config.oauthCallbackHost,
+    config.oauthCallbackUrl,
   );
 
-  // Start the bot
+  // Listen before setting the webhook, so Telegram's first delivery lands
+  await callbackServer.start();
   await botApp.start();
+  tokenManager.start();
 
   logger.info("Swiggy MCP Telegram Bot is running!", {
-    oauthCallbackUrl: `http://${config.oauthCallbackHost}:${config.oauthCallbackPort}/callback`,
+    oauthCallbackUrl: config.oauthCallbackUrl,
   });
 
   // Graceful shutdown
   const shutdown = async () => {
     logger.info("Shutting down...");
+    tokenManager.stop();
     await botApp.stop();
     await callbackServer.stop();
     process.exit(0);
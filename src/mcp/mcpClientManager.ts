@@ -11,37 +11,36 @@ export class McpClientManager {
   private transports: Map<string, StreamableHTTPClientTransport> = new Map();
   private sessionStore: SessionStore;
   private endpoints: Record<SwiggyService, string>;
-  private callbackPort: number;
-  private callbackHost: string;
+  private callbackUrl: string;
 
   constructor(
     sessionStore: SessionStore,
     endpoints: Record<SwiggyService, string>,
-    callbackPort: number,
-    callbackHost: string = "localhost",
+    callbackUrl: string,
   ) {
     this.sessionStore = sessionStore;
     this.endpoints = endpoints;
-    this.callbackPort = callbackPort;
-    this.callbackHost = callbackHost;
+    this.callbackUrl = callbackUrl;
   }
 
-  private getKey(userId: number, service: SwiggyService): string {
-    return `${userId}:${service}`;
+  private getKey(userId: number, service: SwiggyService, profile?: string): string {
+    return `${userId}:${profile ?? this.sessionStore.getActiveProfileName(userId)}:${service}`;
   }
 
   /**
-   * Get or create an authenticated MCP client for a user + service.
+   * Get or create an authenticated MCP client for a user + service, using
+   * the user's active account profile.
    * If the user isn't authenticated, the transport's OAuth flow will
    * trigger, storing the auth URL for the bot to send.
    */
   async getClient(userId: number, service: SwiggyService): Promise<Client> {
-    const key = this.getKey(userId, service);
+    const profile = this.sessionStore.getActiveProfileName(userId);
+    const key = this.getKey(userId, service, profile);
     const existing = this.clients.get(key);
     if (existing) return existing;
 
     // Check if user has tokens already
-    if (!this.sessionStore.isAuthenticated(userId, service)) {
+    if (!this.sessionStore.isAuthenticated(userId, service, profile)) {
       throw new AuthenticationRequiredError(userId, service);
     }
 
@@ -49,8 +48,9 @@ export class McpClientManager {
       userId,
       service,
       this.sessionStore,
-      this.callbackPort,
-      this.callbackHost,
+      this.callbackUrl,
+      undefined,
+      profile,
     );
 
     const url = new URL(this.endpoints[service]);
@@ -96,8 +96,7 @@ export class McpClientManager {
       userId,
       service,
       this.sessionStore,
-      this.callbackPort,
-      this.callbackHost,
+      this.callbackUrl,
       state,
     );
 
@@ -130,10 +129,10 @@ export class McpClientManager {
   }
 
   /**
-   * Disconnect and remove a client for a user + service.
+   * Disconnect and remove a client for a user + service (active profile unless given).
    */
-  async disconnectClient(userId: number, service: SwiggyService): Promise<void> {
-    const key = this.getKey(userId, service);
+  async disconnectClient(userId: number, service: SwiggyService, profile?: string): Promise<void> {
+    const key = this.getKey(userId, service, profile);
     const client = this.clients.get(key);
     if (client) {
       try {
@@ -147,19 +146,26 @@ export class McpClientManager {
   }
 
   /**
-   * Disconnect all clients for a user.
+   * Disconnect all clients for a user, across every profile.
    */
   async disconnectUser(userId: number): Promise<void> {
-    for (const service of ["food", "instamart", "dineout"] as SwiggyService[]) {
-      await this.disconnectClient(userId, service);
+    for (const [key, client] of [...this.clients.entries()]) {
+      if (!key.startsWith(`${userId}:`)) continue;
+      try {
+        await client.close();
+      } catch {
+        // Ignore close errors
+      }
+      this.clients.delete(key);
+      this.transports.delete(key);
     }
   }
 
   /**
    * Remove cached client (e.g., after auth refresh) so next getClient creates fresh connection.
    */
-  invalidateClient(userId: number, service: SwiggyService): void {
-    const key = this.getKey(userId, service);
+  invalidateClient(userId: number, service: SwiggyService, profile?: string): void {
+    const key = this.getKey(userId, service, profile);
     this.clients.delete(key);
     this.transports.delete(key);
   }
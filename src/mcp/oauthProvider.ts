@@ -15,6 +15,9 @@ import { logger } from "../utils/logger.js";
  * OAuthClientProvider interface. This bridges Swiggy's OAuth flow
  * with Telegram's non-browser interaction model.
  *
+ * The provider is pinned to one account profile (the active one unless
+ * given), so switching profiles mid-flow can't misfile tokens.
+ *
  * Instead of opening a browser directly, redirectToAuthorization()
  * stores the URL so the bot can send it to the user via Telegram.
  */
@@ -22,28 +25,29 @@ export class SwiggyOAuthProvider implements OAuthClientProvider {
   private userId: number;
   private service: SwiggyService;
   private sessionStore: SessionStore;
-  private callbackPort: number;
-  private callbackHost: string;
+  private callbackUrl: string;
   private oauthState?: string;
+  private profile: string;
+  private usedClientId?: string;
 
   constructor(
     userId: number,
     service: SwiggyService,
     sessionStore: SessionStore,
-    callbackPort: number,
-    callbackHost: string = "localhost",
+    callbackUrl: string,
     oauthState?: string,
+    profile?: string,
   ) {
     this.userId = userId;
     this.service = service;
     this.sessionStore = sessionStore;
-    this.callbackPort = callbackPort;
-    this.callbackHost = callbackHost;
+    this.callbackUrl = callbackUrl;
     this.oauthState = oauthState;
+    this.profile = profile ?? sessionStore.getActiveProfileName(userId);
   }
 
   get redirectUrl(): string {
-    return `http://${this.callbackHost}:${this.callbackPort}/callback`;
+    return this.callbackUrl;
   }
 
   get clientMetadata() {
@@ -56,20 +60,24 @@ export class SwiggyOAuthProvider implements OAuthClientProvider {
   }
 
   async clientInformation(): Promise<OAuthClientInformation | undefined> {
-    return this.sessionStore.getClientInfo(this.userId, this.service);
+    const info = this.sessionStore.getClientInfo(this.service, this.redirectUrl);
+    this.usedClientId = info?.client_id;
+    return info;
   }
 
   async saveClientInformation(info: OAuthClientInformationFull): Promise<void> {
-    this.sessionStore.saveClientInfo(this.userId, this.service, info);
+    logger.info("Saving OAuth client registration", { service: this.service, clientId: info.client_id });
+    this.sessionStore.saveClientInfo(this.service, this.redirectUrl, info);
   }
 
   async tokens(): Promise<OAuthTokens | undefined> {
-    return this.sessionStore.getTokens(this.userId, this.service);
+    return this.sessionStore.getTokens(this.userId, this.service, this.profile);
   }
 
   async saveTokens(tokens: OAuthTokens): Promise<void> {
-    logger.info("Saving OAuth tokens", { userId: this.userId, service: this.service });
-    this.sessionStore.saveTokens(this.userId, this.service, tokens);
+    logger.info("Saving OAuth tokens", { userId: this.userId, service: this.service, profile: this.profile });
+    const clientId = this.usedClientId ?? (await this.clientInformation())?.client_id;
+    this.sessionStore.saveTokens(this.userId, this.service, tokens, this.profile, clientId);
   }
 
   async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
@@ -90,10 +98,37 @@ export class SwiggyOAuthProvider implements OAuthClientProvider {
   }
 
   async saveCodeVerifier(codeVerifier: string): Promise<void> {
-    this.sessionStore.saveCodeVerifier(this.userId, this.service, codeVerifier);
+    this.sessionStore.saveCodeVerifier(this.userId, this.service, codeVerifier, this.profile);
   }
 
   async codeVerifier(): Promise<string> {
-    return this.sessionStore.getCodeVerifier(this.userId, this.service);
+    return this.sessionStore.getCodeVerifier(this.userId, this.service, this.profile);
+  }
+
+  async invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): Promise<void> {
+    logger.info("Invalidating OAuth credentials", { userId: this.userId, service: this.service, scope });
+    const tokenClientId = this.sessionStore.getTokenClientId(this.userId, this.service, this.profile);
+    if (scope === "tokens" || scope === "all") {
+      this.sessionStore.invalidateTokens(this.userId, this.service, this.profile);
+    }
+    if (scope === "client" || scope === "all") {
+      this.dropRejectedClient(tokenClientId);
+    }
+  }
+
+  /**
+   * The server rejected our client_id. The shared registration is dropped
+   * (so the SDK's retry registers a new one) only if it is still the one
+   * that was rejected — another user may already have replaced it. Tokens
+   * issued to an earlier client fail against the current one too; that
+   * only costs this user their tokens, not everyone the registration.
+   */
+  private dropRejectedClient(tokenClientId: string | undefined): void {
+    const shared = this.sessionStore.getClientInfo(this.service, this.redirectUrl);
+    if (!shared || shared.client_id !== this.usedClientId) return;
+    if (tokenClientId !== undefined && tokenClientId !== shared.client_id) return;
+
+    logger.warn("Shared OAuth client rejected, registering a new one", { service: this.service, clientId: shared.client_id });
+    this.sessionStore.clearClientInfo(this.service, this.redirectUrl);
   }
 }
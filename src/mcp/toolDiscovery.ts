@@ -5,7 +5,16 @@ import { logger } from "../utils/logger.js";
 
 export class ToolDiscovery {
   private globalCache: ToolCache | null = null;
-  private perUserCache: Map<number, ToolCache> = new Map();
+  private perUserCache: Map<string, ToolCache> = new Map();
+  private scopeKey: (userId: number) => string;
+
+  /**
+   * @param scopeKey Maps a user to the cache scope for their tools, e.g. to
+   *   keep one cache per account profile. Defaults to one cache per user.
+   */
+  constructor(scopeKey: (userId: number) => string = (userId) => String(userId)) {
+    this.scopeKey = scopeKey;
+  }
 
   /**
    * Discover tools for a specific user + service using their authenticated client.
@@ -30,12 +39,13 @@ export class ToolDiscovery {
       });
 
       // Merge into per-user cache
-      const existing = this.perUserCache.get(userId);
+      const scope = this.scopeKey(userId);
+      const existing = this.perUserCache.get(scope);
       const otherServiceTools = existing
         ? existing.tools.filter((t) => t.service !== service)
         : [];
 
-      this.perUserCache.set(userId, {
+      this.perUserCache.set(scope, {
         tools: [...otherServiceTools, ...tools],
         discoveredAt: Date.now(),
         ttlMs: TOOL_CACHE_TTL_MS,
@@ -57,7 +67,7 @@ export class ToolDiscovery {
    */
   getTools(userId?: number): DiscoveredTool[] {
     if (userId) {
-      const userCache = this.perUserCache.get(userId);
+      const userCache = this.perUserCache.get(this.scopeKey(userId));
       if (userCache && Date.now() - userCache.discoveredAt < userCache.ttlMs) {
         return userCache.tools;
       }
@@ -83,9 +93,45 @@ export class ToolDiscovery {
   }
 
   /**
-   * Invalidate cache for a user.
+   * Find a discovered tool for a service by name. Patterns are tried in
+   * order, so put the most specific first. Tools matching any of `exclude`
+   * are never returned.
+   */
+  findTool(service: SwiggyService, userId: number, patterns: RegExp[], exclude: RegExp[] = []): DiscoveredTool | undefined {
+    const tools = this.getToolsForService(service, userId)
+      .filter((t) => !exclude.some((pattern) => pattern.test(t.tool.name)));
+    for (const pattern of patterns) {
+      const match = tools.find((t) => pattern.test(t.tool.name));
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  /**
+   * Like findTool, but discovers the user's tools for the service first if
+   * none are cached yet.
+   */
+  async findToolForUser(
+    userId: number,
+    service: SwiggyService,
+    client: Client,
+    patterns: RegExp[],
+    exclude: RegExp[] = [],
+  ): Promise<DiscoveredTool | undefined> {
+    if (!this.hasToolsForService(service, userId)) {
+      await this.discoverToolsForUser(userId, service, client);
+    }
+    return this.findTool(service, userId, patterns, exclude);
+  }
+
+  /**
+   * Invalidate cache for a user, across every scope (profile) they have.
    */
   invalidateUser(userId: number): void {
-    this.perUserCache.delete(userId);
+    for (const scope of [...this.perUserCache.keys()]) {
+      if (scope === String(userId) || scope.startsWith(`${userId}:`)) {
+        this.perUserCache.delete(scope);
+      }
+    }
   }
 }
@@ -45,8 +45,11 @@ export class ConversationMemory {
     return undefined;
   }
 
-  clearHistory(userId: number): void {
+  /** Returns the number of turns removed. */
+  clearHistory(userId: number): number {
+    const count = this.store.get(userId)?.length ?? 0;
     this.store.delete(userId);
+    return count;
   }
 
   destroy(): void {
@@ -0,0 +1,125 @@
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { UserSession, UserOAuthState, AccountProfile } from "../types/user.types.js";
+import type { SwiggyService } from "../types/mcp.types.js";
+import type { SessionBackend, SessionNamespace, SessionRecordTypes, SessionSnapshot } from "./sessionBackend.js";
+import { TokenCipher } from "./tokenCipher.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Every OAuth state in a stored session, across its account profiles.
+ */
+function oauthStatesOf(session: UserSession): UserOAuthState[] {
+  return Object.values(session.profiles)
+    .flatMap((profile) => Object.values(profile.oauthState))
+    .filter((s): s is UserOAuthState => !!s);
+}
+
+/**
+ * Decorates another backend so OAuth tokens and client registrations are
+ * encrypted before they reach storage and decrypted when loaded. Everything
+ * else in a session (chat IDs, address IDs, timestamps) is stored as-is.
+ */
+export class EncryptedSessionBackend implements SessionBackend {
+  private inner: SessionBackend;
+  private cipher: TokenCipher;
+
+  constructor(inner: SessionBackend, cipher: TokenCipher) {
+    this.inner = inner;
+    this.cipher = cipher;
+  }
+
+  load(): SessionSnapshot {
+    const snapshot = this.inner.load();
+    let stale = 0;
+
+    for (const [key, session] of snapshot.sessions.entries()) {
+      for (const state of oauthStatesOf(session)) {
+        if (!state.tokens) continue;
+        if (this.isStale(state.tokens)) stale++;
+        if (TokenCipher.isEnvelope(state.tokens)) {
+          state.tokens = this.cipher.decrypt(state.tokens);
+        }
+      }
+      snapshot.sessions.set(key, session);
+    }
+
+    for (const [key, info] of snapshot.clientInfos.entries()) {
+      if (this.isStale(info)) stale++;
+      if (TokenCipher.isEnvelope(info)) {
+        snapshot.clientInfos.set(key, this.cipher.decrypt<OAuthClientInformationFull>(info));
+      }
+    }
+
+    if (stale > 0) {
+      this.reencrypt(snapshot);
+      logger.info("Re-encrypted stored credentials with the current key", {
+        records: stale,
+        keyId: this.cipher.primaryKeyId,
+      });
+    }
+
+    return snapshot;
+  }
+
+  put<N extends SessionNamespace>(namespace: N, key: string, value: SessionRecordTypes[N]): void {
+    this.inner.put(namespace, key, this.seal(namespace, value));
+  }
+
+  delete(namespace: SessionNamespace, key: string): void {
+    this.inner.delete(namespace, key);
+  }
+
+  purge(): void {
+    this.inner.purge();
+  }
+
+  close(): void {
+    this.inner.close();
+  }
+
+  /**
+   * Re-seal every credential in a decrypted snapshot with the primary key.
+   * Run automatically on load when records are plaintext or sealed with a
+   * previous key, so rotating TOKEN_ENCRYPTION_KEY only needs a restart with
+   * the old key listed in TOKEN_ENCRYPTION_PREVIOUS_KEYS.
+   */
+  reencrypt(snapshot: SessionSnapshot): void {
+    for (const [key, session] of snapshot.sessions.entries()) {
+      this.put("sessions", key, session);
+    }
+    for (const [key, info] of snapshot.clientInfos.entries()) {
+      this.put("clientInfos", key, info);
+    }
+  }
+
+  private seal<N extends SessionNamespace>(namespace: N, value: SessionRecordTypes[N]): SessionRecordTypes[N] {
+    if (namespace === "clientInfos") {
+      return this.cipher.encrypt(value) as unknown as SessionRecordTypes[N];
+    }
+
+    if (namespace === "sessions") {
+      const session = value as UserSession;
+      const profiles: UserSession["profiles"] = {};
+      for (const [name, profile] of Object.entries(session.profiles)) {
+        profiles[name] = { ...profile, oauthState: this.sealOAuthState(profile.oauthState) };
+      }
+      return { ...session, profiles } as SessionRecordTypes[N];
+    }
+
+    return value;
+  }
+
+  private sealOAuthState(oauthState: AccountProfile["oauthState"]): AccountProfile["oauthState"] {
+    const sealed: AccountProfile["oauthState"] = {};
+    for (const [service, state] of Object.entries(oauthState)) {
+      sealed[service as SwiggyService] = state?.tokens
+        ? { ...state, tokens: this.cipher.encrypt(state.tokens) as unknown as typeof state.tokens }
+        : state;
+    }
+    return sealed;
+  }
+
+  private isStale(value: unknown): boolean {
+    return !TokenCipher.isEnvelope(value) || value.kid !== this.cipher.primaryKeyId;
+  }
+}
@@ -0,0 +1,135 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { SessionBackend, SessionNamespace, SessionRecordTypes, SessionSnapshot } from "./sessionBackend.js";
+import { SESSION_NAMESPACES, emptySnapshot } from "./sessionBackend.js";
+import { logger } from "../utils/logger.js";
+
+type LogEntry =
+  | { op: "put"; ns: SessionNamespace; key: string; value: unknown }
+  | { op: "del"; ns: SessionNamespace; key: string };
+
+// Rewrite the log once it holds this many more entries than live records
+const COMPACTION_SLACK = 1000;
+
+/**
+ * Durable backend backed by an append-only JSON Lines file.
+ *
+ * Every put/delete is appended synchronously so a crash loses at most the
+ * write in flight. On load the log is replayed and rewritten with only the
+ * live records; it is compacted again whenever it grows too far past that.
+ */
+export class FileSessionBackend implements SessionBackend {
+  private filePath: string;
+  private live: SessionSnapshot = emptySnapshot();
+  private entryCount = 0;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  load(): SessionSnapshot {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.live = emptySnapshot();
+
+    if (fs.existsSync(this.filePath)) {
+      const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+      let skipped = 0;
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          this.apply(JSON.parse(line) as LogEntry);
+        } catch {
+          // A torn final line after a crash is expected; anything else is logged
+          skipped++;
+        }
+      }
+
+      if (skipped > 0) {
+        logger.warn("Skipped unreadable session log entries", { file: this.filePath, skipped });
+      }
+    }
+
+    this.compact();
+
+    logger.info("Session store loaded from file", {
+      file: this.filePath,
+      sessions: this.live.sessions.size,
+      pendingFlows: this.live.pendingFlows.size,
+      clientInfos: this.live.clientInfos.size,
+      shoppingHistories: this.live.shoppingHistories.size,
+      trackedOrders: this.live.trackedOrders.size,
+    });
+
+    const copy = emptySnapshot();
+    for (const namespace of SESSION_NAMESPACES) {
+      for (const [key, value] of this.live[namespace].entries()) {
+        (copy[namespace] as Map<string, unknown>).set(key, structuredClone(value));
+      }
+    }
+    return copy;
+  }
+
+  put<N extends SessionNamespace>(namespace: N, key: string, value: SessionRecordTypes[N]): void {
+    this.append({ op: "put", ns: namespace, key, value });
+  }
+
+  delete(namespace: SessionNamespace, key: string): void {
+    if (!this.live[namespace].has(key)) return;
+    this.append({ op: "del", ns: namespace, key });
+  }
+
+  /**
+   * Superseded puts (old tokens included) stay in the log until the next
+   * compaction, so rewrite it now.
+   */
+  purge(): void {
+    this.compact();
+  }
+
+  close(): void {
+    this.compact();
+  }
+
+  private append(entry: LogEntry): void {
+    this.apply(structuredClone(entry));
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    this.entryCount++;
+
+    if (this.entryCount > this.liveCount() + COMPACTION_SLACK) {
+      this.compact();
+    }
+  }
+
+  private apply(entry: LogEntry): void {
+    if (!SESSION_NAMESPACES.includes(entry.ns)) return;
+    const map = this.live[entry.ns] as Map<string, unknown>;
+    if (entry.op === "put") {
+      map.set(entry.key, entry.value);
+    } else {
+      map.delete(entry.key);
+    }
+  }
+
+  /**
+   * Rewrite the log with one put per live record, via a temp file + rename
+   * so a crash mid-compaction never leaves a half-written log behind.
+   */
+  private compact(): void {
+    const lines: string[] = [];
+    for (const namespace of SESSION_NAMESPACES) {
+      for (const [key, value] of this.live[namespace].entries()) {
+        lines.push(JSON.stringify({ op: "put", ns: namespace, key, value }));
+      }
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, lines.length > 0 ? lines.join("\n") + "\n" : "", { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+    this.entryCount = lines.length;
+  }
+
+  private liveCount(): number {
+    return SESSION_NAMESPACES.reduce((sum, ns) => sum + this.live[ns].size, 0);
+  }
+}
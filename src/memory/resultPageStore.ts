@@ -0,0 +1,74 @@
+import type { FilteredResult, SwiggyService } from "../types/mcp.types.js";
+import type { IntentCategory } from "../types/gemini.types.js";
+import { RESULT_PAGES_TTL_MS, MAX_RESULT_SETS_PER_USER } from "../config/constants.js";
+
+export interface StoredResults {
+  userId: number;
+  service: SwiggyService;
+  intent: IntentCategory;
+  query: string;
+  result: FilteredResult;
+  /** Label of the delivery address the search ran against */
+  deliveringTo?: string;
+  expiresAt: number;
+}
+
+/**
+ * Keeps the full filtered result behind each search message so Previous /
+ * Next can re-render any page without calling the MCP tool again.
+ */
+export class ResultPageStore {
+  private store: Map<string, StoredResults> = new Map();
+  private ttlMs: number;
+  private cleanupInterval: ReturnType<typeof setInterval>;
+
+  constructor(ttlMs: number = RESULT_PAGES_TTL_MS) {
+    this.ttlMs = ttlMs;
+    this.cleanupInterval = setInterval(() => this.cleanupExpired(), 300000);
+  }
+
+  /** Returns the id that page buttons refer to. */
+  save(entry: Omit<StoredResults, "expiresAt">): string {
+    const id = crypto.randomUUID();
+    this.store.set(id, { ...entry, expiresAt: Date.now() + this.ttlMs });
+
+    // Only the most recent searches per user stay pageable
+    const own = [...this.store.entries()].filter(([, e]) => e.userId === entry.userId);
+    for (const [oldId] of own.slice(0, Math.max(0, own.length - MAX_RESULT_SETS_PER_USER))) {
+      this.store.delete(oldId);
+    }
+    return id;
+  }
+
+  get(id: string, userId: number): StoredResults | undefined {
+    const entry = this.store.get(id);
+    if (!entry || entry.userId !== userId) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.store.delete(id);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /** Returns the number of result sets removed. */
+  clearUser(userId: number): number {
+    let removed = 0;
+    for (const [id, entry] of this.store.entries()) {
+      if (entry.userId !== userId) continue;
+      this.store.delete(id);
+      removed++;
+    }
+    return removed;
+  }
+
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+  }
+
+  private cleanupExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.store.entries()) {
+      if (entry.expiresAt <= now) this.store.delete(id);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { UserSession, PendingOAuthFlow } from "../types/user.types.js";
+import type { ShoppingHistory, TrackedOrder } from "../types/order.types.js";
+
+/**
+ * Record types persisted by the SessionStore, keyed by namespace.
+ */
+export interface SessionRecordTypes {
+  sessions: UserSession;
+  pendingFlows: PendingOAuthFlow;
+  clientInfos: OAuthClientInformationFull;
+  shoppingHistories: ShoppingHistory;
+  trackedOrders: TrackedOrder;
+}
+
+export type SessionNamespace = keyof SessionRecordTypes;
+
+export type SessionSnapshot = {
+  [N in SessionNamespace]: Map<string, SessionRecordTypes[N]>;
+};
+
+export const SESSION_NAMESPACES: SessionNamespace[] = ["sessions", "pendingFlows", "clientInfos", "shoppingHistories", "trackedOrders"];
+
+/**
+ * Storage behind the SessionStore. The store keeps its working set in memory
+ * and writes every mutation through to the backend, so backends only need to
+ * load a snapshot at startup and persist individual puts/deletes.
+ */
+export interface SessionBackend {
+  load(): SessionSnapshot;
+  put<N extends SessionNamespace>(namespace: N, key: string, value: SessionRecordTypes[N]): void;
+  delete(namespace: SessionNamespace, key: string): void;
+  /** Make sure deleted and overwritten values no longer exist in storage */
+  purge(): void;
+  close(): void;
+}
+
+export function emptySnapshot(): SessionSnapshot {
+  return {
+    sessions: new Map(),
+    pendingFlows: new Map(),
+    clientInfos: new Map(),
+    shoppingHistories: new Map(),
+    trackedOrders: new Map(),
+  };
+}
+
+/**
+ * Non-durable backend. Values are cloned on write so callers can't mutate
+ * "persisted" state behind the store's back — useful for tests.
+ */
+export class InMemorySessionBackend implements SessionBackend {
+  private snapshot: SessionSnapshot = emptySnapshot();
+
+  load(): SessionSnapshot {
+    const copy = emptySnapshot();
+    for (const namespace of SESSION_NAMESPACES) {
+      for (const [key, value] of this.snapshot[namespace].entries()) {
+        (copy[namespace] as Map<string, unknown>).set(key, structuredClone(value));
+      }
+    }
+    return copy;
+  }
+
+  put<N extends SessionNamespace>(namespace: N, key: string, value: SessionRecordTypes[N]): void {
+    this.snapshot[namespace].set(key, structuredClone(value));
+  }
+
+  delete(namespace: SessionNamespace, key: string): void {
+    this.snapshot[namespace].delete(key);
+  }
+
+  purge(): void {
+    // Deletes already drop the value
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -1,12 +1,64 @@
 import type { OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
 import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
 import type { SwiggyService } from "../types/mcp.types.js";
-import type { UserSession, PendingOAuthFlow } from "../types/user.types.js";
+import type { UserSession, PendingOAuthFlow, AccountProfile, UserOAuthState, SharedLocation } from "../types/user.types.js";
+import type { Favourite, FavouriteDraft, PastOrder, ShoppingHistory, TrackedOrder } from "../types/order.types.js";
+import type { AppConfig } from "../config/env.js";
+import type { SessionBackend } from "./sessionBackend.js";
+import { InMemorySessionBackend } from "./sessionBackend.js";
+import { FileSessionBackend } from "./fileSessionBackend.js";
+import { EncryptedSessionBackend } from "./encryptedSessionBackend.js";
+import { TokenCipher } from "./tokenCipher.js";
+import { DEFAULT_PROFILE_NAME, MAX_FAVOURITES, MAX_ORDER_HISTORY } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Build the session backend selected by config, wrapped with token
+ * encryption when TOKEN_ENCRYPTION_KEY is set.
+ */
+export function createSessionBackend(config: AppConfig): SessionBackend {
+  const backend = config.sessionStoreBackend === "memory"
+    ? new InMemorySessionBackend()
+    : new FileSessionBackend(config.sessionStorePath);
+
+  if (!config.tokenEncryptionKey) {
+    logger.warn("TOKEN_ENCRYPTION_KEY not set — OAuth tokens will be stored unencrypted");
+    return backend;
+  }
+
+  const cipher = new TokenCipher(config.tokenEncryptionKey, config.tokenEncryptionPreviousKeys);
+  return new EncryptedSessionBackend(backend, cipher);
+}
 
 export class SessionStore {
+  private backend: SessionBackend;
   private sessions: Map<number, UserSession> = new Map();
   private pendingFlows: Map<string, PendingOAuthFlow> = new Map();
   private clientInfos: Map<string, OAuthClientInformationFull> = new Map();
+  private shoppingHistories: Map<number, ShoppingHistory> = new Map();
+  private trackedOrders: Map<string, TrackedOrder> = new Map();
+
+  constructor(backend: SessionBackend = new InMemorySessionBackend()) {
+    this.backend = backend;
+
+    const snapshot = backend.load();
+    for (const [key, session] of snapshot.sessions.entries()) {
+      this.sessions.set(Number(key), session);
+    }
+    this.pendingFlows = snapshot.pendingFlows;
+    this.clientInfos = snapshot.clientInfos;
+    for (const [key, history] of snapshot.shoppingHistories.entries()) {
+      this.shoppingHistories.set(Number(key), history);
+    }
+    this.trackedOrders = snapshot.trackedOrders;
+  }
+
+  /**
+   * Flush and release the underlying backend.
+   */
+  close(): void {
+    this.backend.close();
+  }
 
   getOrCreateSession(userId: number, chatId: number, username?: string): UserSession {
     if (!this.sessions.has(userId)) {
@@ -14,7 +66,10 @@ export class SessionStore {
         telegramUserId: userId,
         telegramChatId: chatId,
         username,
-        oauthState: {},
+        profiles: {
+          [DEFAULT_PROFILE_NAME]: { name: DEFAULT_PROFILE_NAME, oauthState: {}, createdAt: Date.now() },
+        },
+        activeProfile: DEFAULT_PROFILE_NAME,
         isAuthenticating: false,
         createdAt: Date.now(),
         lastActiveAt: Date.now(),
@@ -22,6 +77,7 @@ export class SessionStore {
     }
     const session = this.sessions.get(userId)!;
     session.lastActiveAt = Date.now();
+    this.persistSession(session);
     return session;
   }
 
@@ -29,47 +85,168 @@ export class SessionStore {
     return this.sessions.get(userId);
   }
 
+  // Account profiles (several Swiggy accounts under one Telegram user)
+  getActiveProfileName(userId: number): string {
+    return this.sessions.get(userId)?.activeProfile ?? DEFAULT_PROFILE_NAME;
+  }
+
+  /**
+   * Key identifying the user's active profile, for scoping caches.
+   */
+  getScopeKey(userId: number): string {
+    return `${userId}:${this.getActiveProfileName(userId)}`;
+  }
+
+  listProfiles(userId: number): AccountProfile[] {
+    return Object.values(this.sessions.get(userId)?.profiles ?? {});
+  }
+
+  /**
+   * Create a profile. Returns false if one with that name already exists,
+   * or the name would shadow an Object.prototype property (__proto__,
+   * constructor) of the profiles map.
+   */
+  addProfile(userId: number, name: string): boolean {
+    const session = this.sessions.get(userId);
+    if (!session || name in session.profiles) return false;
+    session.profiles[name] = { name, oauthState: {}, createdAt: Date.now() };
+    this.persistSession(session);
+    return true;
+  }
+
+  /**
+   * Make a profile the active one. Returns false if it doesn't exist.
+   */
+  useProfile(userId: number, name: string): boolean {
+    const session = this.sessions.get(userId);
+    if (!session || !Object.hasOwn(session.profiles, name)) return false;
+    session.activeProfile = name;
+    this.persistSession(session);
+    return true;
+  }
+
   // OAuth tokens
-  saveTokens(userId: number, service: SwiggyService, tokens: OAuthTokens): void {
+  saveTokens(userId: number, service: SwiggyService, tokens: OAuthTokens, profile?: string, clientId?: string): void {
     const session = this.sessions.get(userId);
-    if (!session) return;
-    if (!session.oauthState[service]) session.oauthState[service] = {};
-    session.oauthState[service]!.tokens = tokens;
-    session.oauthState[service]!.authenticatedAt = Date.now();
+    const state = this.getOrCreateOAuthState(userId, service, profile);
+    if (!session || !state) return;
+    state.tokens = tokens;
+    state.clientId = clientId;
+    state.authenticatedAt = Date.now();
+    state.expiresAt = tokens.expires_in != null
+      ? Date.now() + tokens.expires_in * 1000
+      : undefined;
     session.isAuthenticating = false;
     session.pendingAuthService = undefined;
     session.pendingAuthUrl = undefined;
+    this.persistSession(session);
   }
 
-  getTokens(userId: number, service: SwiggyService): OAuthTokens | undefined {
-    return this.sessions.get(userId)?.oauthState[service]?.tokens;
+  getTokens(userId: number, service: SwiggyService, profile?: string): OAuthTokens | undefined {
+    return this.getProfile(userId, profile)?.oauthState[service]?.tokens;
   }
 
-  clearTokens(userId: number, service: SwiggyService): void {
-    const session = this.sessions.get(userId);
-    if (!session?.oauthState[service]) return;
-    delete session.oauthState[service];
+  getTokenClientId(userId: number, service: SwiggyService, profile?: string): string | undefined {
+    return this.getProfile(userId, profile)?.oauthState[service]?.clientId;
+  }
+
+  /**
+   * Forget everything tied to a service login: tokens, PKCE verifier and
+   * the cached address.
+   */
+  clearTokens(userId: number, service: SwiggyService, profile?: string): void {
+    const target = this.getProfile(userId, profile);
+    if (!target?.oauthState[service] && !target?.addressIds?.[service] && !target?.locations?.[service]) return;
+    delete target.oauthState[service];
+    delete target.addressIds?.[service];
+    delete target.addressLabels?.[service];
+    delete target.locations?.[service];
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  /**
+   * Drop only the token set, keeping any in-progress PKCE verifier so a
+   * re-authorization started alongside can still be completed.
+   */
+  invalidateTokens(userId: number, service: SwiggyService, profile?: string): void {
+    const state = this.getProfile(userId, profile)?.oauthState[service];
+    if (!state) return;
+    delete state.tokens;
+    delete state.expiresAt;
+    delete state.clientId;
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  /**
+   * List token sets, across all profiles, that expire before the given
+   * time (ms epoch). Tokens without a known expiry are never returned.
+   */
+  getExpiringTokens(before: number): Array<{
+    userId: number;
+    chatId: number;
+    service: SwiggyService;
+    profile: string;
+    expiresAt: number;
+    canRefresh: boolean;
+  }> {
+    const expiring = [];
+    for (const session of this.sessions.values()) {
+      for (const profile of Object.values(session.profiles)) {
+        for (const [service, state] of Object.entries(profile.oauthState)) {
+          if (!state?.tokens || state.expiresAt == null || state.expiresAt > before) continue;
+          expiring.push({
+            userId: session.telegramUserId,
+            chatId: session.telegramChatId,
+            service: service as SwiggyService,
+            profile: profile.name,
+            expiresAt: state.expiresAt,
+            canRefresh: !!state.tokens.refresh_token,
+          });
+        }
+      }
+    }
+    return expiring;
   }
 
   // Code verifier for PKCE
-  saveCodeVerifier(userId: number, service: SwiggyService, verifier: string): void {
-    const session = this.sessions.get(userId);
-    if (!session) return;
-    if (!session.oauthState[service]) session.oauthState[service] = {};
-    session.oauthState[service]!.codeVerifier = verifier;
+  saveCodeVerifier(userId: number, service: SwiggyService, verifier: string, profile?: string): void {
+    const state = this.getOrCreateOAuthState(userId, service, profile);
+    if (!state) return;
+    state.codeVerifier = verifier;
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  getCodeVerifier(userId: number, service: SwiggyService, profile?: string): string {
+    return this.getProfile(userId, profile)?.oauthState[service]?.codeVerifier ?? "";
   }
 
-  getCodeVerifier(userId: number, service: SwiggyService): string {
-    return this.sessions.get(userId)?.oauthState[service]?.codeVerifier ?? "";
+  // Client information (from dynamic client registration), shared by all
+  // users of a service as long as the redirect URI is the same
+  saveClientInfo(service: SwiggyService, redirectUrl: string, info: OAuthClientInformationFull): void {
+    const key = `${service}:${redirectUrl}`;
+    this.clientInfos.set(key, info);
+    this.backend.put("clientInfos", key, info);
   }
 
-  // Client information (from dynamic client registration)
-  saveClientInfo(userId: number, service: SwiggyService, info: OAuthClientInformationFull): void {
-    this.clientInfos.set(`${userId}:${service}`, info);
+  getClientInfo(service: SwiggyService, redirectUrl: string): OAuthClientInformationFull | undefined {
+    return this.clientInfos.get(`${service}:${redirectUrl}`);
   }
 
-  getClientInfo(userId: number, service: SwiggyService): OAuthClientInformationFull | undefined {
-    return this.clientInfos.get(`${userId}:${service}`);
+  /**
+   * Forget client registrations for a service — for one redirect URI, or all
+   * of them when omitted — so the next auth flow registers afresh.
+   * Returns how many registrations were removed.
+   */
+  clearClientInfo(service: SwiggyService, redirectUrl?: string): number {
+    const prefix = redirectUrl ? `${service}:${redirectUrl}` : `${service}:`;
+    let removed = 0;
+    for (const key of [...this.clientInfos.keys()]) {
+      if (redirectUrl ? key !== prefix : !key.startsWith(prefix)) continue;
+      this.clientInfos.delete(key);
+      this.backend.delete("clientInfos", key);
+      removed++;
+    }
+    return removed;
   }
 
   // Pending auth URL (for sending to Telegram user)
@@ -79,6 +256,7 @@ export class SessionStore {
     session.pendingAuthUrl = url;
     session.pendingAuthService = service;
     session.isAuthenticating = true;
+    this.persistSession(session);
   }
 
   getPendingAuthUrl(userId: number): { url: string; service: SwiggyService } | undefined {
@@ -93,43 +271,229 @@ export class SessionStore {
     session.isAuthenticating = false;
     session.pendingAuthService = undefined;
     session.pendingAuthUrl = undefined;
+    this.persistSession(session);
   }
 
   // Pending OAuth flows (matched by state parameter)
   registerPendingFlow(state: string, flow: PendingOAuthFlow): void {
     this.pendingFlows.set(state, flow);
+    this.backend.put("pendingFlows", state, flow);
   }
 
   getPendingFlow(state: string): PendingOAuthFlow | undefined {
     return this.pendingFlows.get(state);
   }
 
+  getPendingFlows(): PendingOAuthFlow[] {
+    return [...this.pendingFlows.values()];
+  }
+
   removePendingFlow(state: string): void {
     this.pendingFlows.delete(state);
+    this.backend.delete("pendingFlows", state);
   }
 
-  // Address ID (needed by search tools like search_restaurants)
-  saveAddressId(userId: number, service: SwiggyService, addressId: string): void {
+  /**
+   * Remove the user's session (every profile, token and address), any
+   * pending OAuth flows they started, their favourites and order history,
+   * and orders still being tracked. Returns what was removed.
+   */
+  deleteUserData(userId: number): { profiles: number; services: number; pendingFlows: number; favourites: number; orders: number } {
+    const removed = { profiles: 0, services: 0, pendingFlows: 0, favourites: 0, orders: 0 };
+
     const session = this.sessions.get(userId);
-    if (!session) return;
-    if (!session.addressIds) session.addressIds = {};
-    session.addressIds[service] = addressId;
+    if (session) {
+      for (const profile of Object.values(session.profiles)) {
+        removed.profiles++;
+        removed.services += Object.values(profile.oauthState).filter((s) => !!s?.tokens).length;
+      }
+      this.sessions.delete(userId);
+      this.backend.delete("sessions", String(userId));
+    }
+
+    for (const flow of this.getPendingFlows()) {
+      if (flow.telegramUserId !== userId) continue;
+      this.removePendingFlow(flow.state);
+      removed.pendingFlows++;
+    }
+
+    const history = this.shoppingHistories.get(userId);
+    if (history) {
+      removed.favourites = history.favourites.length;
+      removed.orders = history.orders.length;
+      this.shoppingHistories.delete(userId);
+      this.backend.delete("shoppingHistories", String(userId));
+    }
+
+    for (const order of this.getTrackedOrders()) {
+      if (order.telegramUserId === userId) this.removeTrackedOrder(order.id);
+    }
+
+    // Earlier writes of the removed records may still sit in an append-only log
+    this.backend.purge();
+
+    return removed;
   }
 
-  getAddressId(userId: number, service: SwiggyService): string | undefined {
-    return this.sessions.get(userId)?.addressIds?.[service];
+  // Favourites and order history (for /reorder)
+  getFavourites(userId: number): Favourite[] {
+    return this.shoppingHistories.get(userId)?.favourites ?? [];
   }
 
-  // Check authentication status
-  isAuthenticated(userId: number, service: SwiggyService): boolean {
-    return !!this.sessions.get(userId)?.oauthState[service]?.tokens;
+  getPastOrders(userId: number): PastOrder[] {
+    return this.shoppingHistories.get(userId)?.orders ?? [];
   }
 
-  getAuthenticatedServices(userId: number): SwiggyService[] {
-    const session = this.sessions.get(userId);
-    if (!session) return [];
-    return (Object.keys(session.oauthState) as SwiggyService[]).filter(
-      (s) => !!session.oauthState[s]?.tokens,
+  /**
+   * Star a restaurant or item. Returns the existing favourite if it was
+   * already saved; the oldest is dropped past MAX_FAVOURITES.
+   */
+  addFavourite(userId: number, draft: FavouriteDraft): { favourite: Favourite; created: boolean } {
+    const history = this.getOrCreateShoppingHistory(userId);
+    const existing = history.favourites.find(
+      (f) => f.service === draft.service && f.kind === draft.kind && f.targetId === draft.targetId,
     );
+    if (existing) return { favourite: existing, created: false };
+
+    const favourite: Favourite = { ...draft, id: this.shortId(), savedAt: Date.now() };
+    history.favourites.push(favourite);
+    if (history.favourites.length > MAX_FAVOURITES) history.favourites.shift();
+    this.persistShoppingHistory(history);
+    return { favourite, created: true };
+  }
+
+  removeFavourite(userId: number, favouriteId: string): boolean {
+    const history = this.shoppingHistories.get(userId);
+    if (!history) return false;
+    const before = history.favourites.length;
+    history.favourites = history.favourites.filter((f) => f.id !== favouriteId);
+    if (history.favourites.length === before) return false;
+    this.persistShoppingHistory(history);
+    return true;
+  }
+
+  /**
+   * Remember a placed order, keeping the newest MAX_ORDER_HISTORY.
+   */
+  recordOrder(userId: number, order: Omit<PastOrder, "id">): PastOrder {
+    const history = this.getOrCreateShoppingHistory(userId);
+    const saved: PastOrder = { ...order, id: this.shortId() };
+    history.orders.unshift(saved);
+    history.orders.length = Math.min(history.orders.length, MAX_ORDER_HISTORY);
+    this.persistShoppingHistory(history);
+    return saved;
+  }
+
+  // Orders being tracked in chat (survive restarts)
+  getTrackedOrders(): TrackedOrder[] {
+    return [...this.trackedOrders.values()];
+  }
+
+  getTrackedOrder(id: string): TrackedOrder | undefined {
+    return this.trackedOrders.get(id);
+  }
+
+  saveTrackedOrder(order: TrackedOrder): void {
+    this.trackedOrders.set(order.id, order);
+    this.backend.put("trackedOrders", order.id, order);
+  }
+
+  removeTrackedOrder(id: string): void {
+    this.trackedOrders.delete(id);
+    this.backend.delete("trackedOrders", id);
+  }
+
+  // Address ID (needed by search tools like search_restaurants)
+  saveAddressId(userId: number, service: SwiggyService, addressId: string, label?: string, profile?: string): void {
+    const target = this.getProfile(userId, profile);
+    if (!target) return;
+    if (!target.addressIds) target.addressIds = {};
+    target.addressIds[service] = addressId;
+    if (!target.addressLabels) target.addressLabels = {};
+    if (label) target.addressLabels[service] = label;
+    else delete target.addressLabels[service];
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  /**
+   * Deliver to a shared point rather than a saved address. The cached
+   * addressId is dropped so searches and orders stop going to the old one.
+   */
+  saveLocation(userId: number, service: SwiggyService, location: SharedLocation, profile?: string): void {
+    const target = this.getProfile(userId, profile);
+    if (!target) return;
+    if (!target.locations) target.locations = {};
+    target.locations[service] = location;
+    delete target.addressIds?.[service];
+    if (!target.addressLabels) target.addressLabels = {};
+    target.addressLabels[service] = location.label;
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  getLocation(userId: number, service: SwiggyService, profile?: string): SharedLocation | undefined {
+    return this.getProfile(userId, profile)?.locations?.[service];
+  }
+
+  clearLocation(userId: number, service: SwiggyService, profile?: string): void {
+    const target = this.getProfile(userId, profile);
+    if (!target?.locations?.[service]) return;
+    delete target.locations[service];
+    this.persistSession(this.sessions.get(userId)!);
+  }
+
+  getAddressId(userId: number, service: SwiggyService, profile?: string): string | undefined {
+    return this.getProfile(userId, profile)?.addressIds?.[service];
+  }
+
+  getAddressLabel(userId: number, service: SwiggyService, profile?: string): string | undefined {
+    return this.getProfile(userId, profile)?.addressLabels?.[service];
+  }
+
+  // Check authentication status (active profile unless one is named)
+  isAuthenticated(userId: number, service: SwiggyService, profile?: string): boolean {
+    return !!this.getProfile(userId, profile)?.oauthState[service]?.tokens;
+  }
+
+  getAuthenticatedServices(userId: number, profile?: string): SwiggyService[] {
+    const target = this.getProfile(userId, profile);
+    if (!target) return [];
+    return (Object.keys(target.oauthState) as SwiggyService[]).filter(
+      (s) => !!target.oauthState[s]?.tokens,
+    );
+  }
+
+  private getProfile(userId: number, profile?: string): AccountProfile | undefined {
+    const session = this.sessions.get(userId);
+    if (!session) return undefined;
+    const name = profile ?? session.activeProfile;
+    return Object.hasOwn(session.profiles, name) ? session.profiles[name] : undefined;
+  }
+
+  private getOrCreateOAuthState(userId: number, service: SwiggyService, profile?: string): UserOAuthState | undefined {
+    const target = this.getProfile(userId, profile);
+    if (!target) return undefined;
+    if (!target.oauthState[service]) target.oauthState[service] = {};
+    return target.oauthState[service];
+  }
+
+  private getOrCreateShoppingHistory(userId: number): ShoppingHistory {
+    let history = this.shoppingHistories.get(userId);
+    if (!history) {
+      history = { telegramUserId: userId, favourites: [], orders: [] };
+      this.shoppingHistories.set(userId, history);
+    }
+    return history;
+  }
+
+  private persistShoppingHistory(history: ShoppingHistory): void {
+    this.backend.put("shoppingHistories", String(history.telegramUserId), history);
+  }
+
+  private shortId(): string {
+    return crypto.randomUUID().replace(/-/g, "").substring(0, 8);
+  }
+
+  private persistSession(session: UserSession): void {
+    this.backend.put("sessions", String(session.telegramUserId), session);
   }
 }
@@ -0,0 +1,122 @@
+import crypto from "node:crypto";
+
+/**
+ * Serialized form of an encrypted value. The payload is sealed with a random
+ * per-value data key, and the data key is itself sealed with the master key
+ * identified by `kid` (envelope encryption).
+ */
+export interface EncryptedEnvelope {
+  enc: "aes-256-gcm/v1";
+  kid: string;
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+/**
+ * Parse a 256-bit key given as 64 hex characters or base64.
+ */
+function parseKey(raw: string): Buffer {
+  const trimmed = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) {
+    throw new Error("Token encryption keys must be 32 bytes (64 hex chars or base64)");
+  }
+  return key;
+}
+
+function keyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").substring(0, 12);
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * AES-256-GCM envelope encryption with a key ring. New values are always
+ * sealed with the primary key; previous keys are kept only so existing values
+ * can still be opened until they are re-encrypted.
+ */
+export class TokenCipher {
+  private primary: MasterKey;
+  private keys: Map<string, Buffer> = new Map();
+
+  constructor(primaryKey: string, previousKeys: string[] = []) {
+    const key = parseKey(primaryKey);
+    this.primary = { id: keyId(key), key };
+    this.keys.set(this.primary.id, key);
+
+    for (const raw of previousKeys) {
+      const previous = parseKey(raw);
+      this.keys.set(keyId(previous), previous);
+    }
+  }
+
+  get primaryKeyId(): string {
+    return this.primary.id;
+  }
+
+  encrypt(value: unknown): EncryptedEnvelope {
+    const dataKey = crypto.randomBytes(32);
+    const wrapped = seal(this.primary.key, dataKey);
+    const sealed = seal(dataKey, Buffer.from(JSON.stringify(value), "utf8"));
+
+    return {
+      enc: "aes-256-gcm/v1",
+      kid: this.primary.id,
+      wrappedKey: Buffer.concat([wrapped.iv, wrapped.tag, wrapped.data]).toString("base64"),
+      iv: sealed.iv.toString("base64"),
+      tag: sealed.tag.toString("base64"),
+      data: sealed.data.toString("base64"),
+    };
+  }
+
+  decrypt<T>(envelope: EncryptedEnvelope): T {
+    const masterKey = this.keys.get(envelope.kid);
+    if (!masterKey) {
+      throw new Error(`No token encryption key available for key id ${envelope.kid}`);
+    }
+
+    const wrapped = Buffer.from(envelope.wrappedKey, "base64");
+    const dataKey = open(
+      masterKey,
+      wrapped.subarray(0, IV_BYTES),
+      wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+      wrapped.subarray(IV_BYTES + 16),
+    );
+
+    const plaintext = open(
+      dataKey,
+      Buffer.from(envelope.iv, "base64"),
+      Buffer.from(envelope.tag, "base64"),
+      Buffer.from(envelope.data, "base64"),
+    );
+    return JSON.parse(plaintext.toString("utf8")) as T;
+  }
+
+  static isEnvelope(value: unknown): value is EncryptedEnvelope {
+    return typeof value === "object" && value !== null &&
+      (value as Record<string, unknown>).enc === "aes-256-gcm/v1";
+  }
+}
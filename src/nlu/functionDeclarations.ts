@@ -0,0 +1,161 @@
+import { Type, type FunctionDeclaration, type Schema } from "@google/genai";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import {
+  listToolFunctions,
+  truncateDescription,
+  INTENT_FUNCTION,
+  CHECKOUT_FUNCTION,
+  type BotFunction,
+} from "./toolFunctions.js";
+
+const JSON_TYPES: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+// Formats Gemini accepts, per type — anything else is dropped
+const SUPPORTED_FORMATS: Partial<Record<Type, string[]>> = {
+  [Type.STRING]: ["enum", "date-time"],
+  [Type.NUMBER]: ["float", "double"],
+  [Type.INTEGER]: ["int32", "int64"],
+};
+
+const MAX_SCHEMA_DEPTH = 6;
+
+export interface FunctionDeclarationSet {
+  declarations: FunctionDeclaration[];
+  /** Declared function name → the MCP tool it stands for */
+  tools: Map<string, DiscoveredTool>;
+}
+
+/**
+ * Gemini's side of the tool catalogue: every discovered MCP tool declared
+ * as a function, alongside classify_intent.
+ */
+export function buildFunctionDeclarations(tools: DiscoveredTool[]): FunctionDeclarationSet {
+  const declared = declareTools(tools);
+  return { declarations: [toDeclaration(INTENT_FUNCTION), ...declared.declarations], tools: declared.tools };
+}
+
+/**
+ * Declarations for the agent loop: the tools themselves, plus
+ * request_checkout where the service has a confirmation flow.
+ */
+export function buildAgentDeclarations(tools: DiscoveredTool[], checkout: boolean): FunctionDeclarationSet {
+  const declared = declareTools(tools);
+  if (checkout) declared.declarations.push(toDeclaration(CHECKOUT_FUNCTION));
+  return declared;
+}
+
+function declareTools(tools: DiscoveredTool[]): FunctionDeclarationSet {
+  const declarations: FunctionDeclaration[] = [];
+  const byName = new Map<string, DiscoveredTool>();
+
+  for (const fn of listToolFunctions(tools)) {
+    byName.set(fn.name, fn.tool);
+    const declaration: FunctionDeclaration = { name: fn.name, description: fn.description };
+    const parameters = toGeminiSchema(fn.tool.tool.inputSchema);
+    if (parameters?.type === Type.OBJECT && parameters.properties) declaration.parameters = parameters;
+    declarations.push(declaration);
+  }
+
+  return { declarations, tools: byName };
+}
+
+function toDeclaration(fn: BotFunction): FunctionDeclaration {
+  const declaration: FunctionDeclaration = { name: fn.name, description: fn.description };
+  const parameters = fn.parameters ? toGeminiSchema(fn.parameters) : null;
+  if (parameters) declaration.parameters = parameters;
+  return declaration;
+}
+
+/**
+ * Translate a JSON Schema into the OpenAPI subset Gemini accepts. Unions
+ * collapse to their first non-null branch, type arrays like
+ * ["string", "null"] become nullable, non-string enums move into the
+ * description, and $ref, additionalProperties, defaults and the like are
+ * dropped. Returns null for anything that can't be expressed — callers
+ * leave such properties out.
+ */
+export function toGeminiSchema(jsonSchema: unknown, depth: number = 0): Schema | null {
+  if (typeof jsonSchema !== "object" || jsonSchema === null || depth > MAX_SCHEMA_DEPTH) return null;
+  let source = jsonSchema as Record<string, unknown>;
+  let nullable = false;
+
+  // anyOf / oneOf / allOf: keep the first branch that isn't just null
+  for (const key of ["anyOf", "oneOf", "allOf"]) {
+    const branches = source[key];
+    if (!Array.isArray(branches)) continue;
+    const usable = branches.filter((b): b is Record<string, unknown> => typeof b === "object" && b !== null && b.type !== "null");
+    if (usable.length < branches.length) nullable = true;
+    if (usable.length === 0) return null;
+    const { [key]: _, ...rest } = source;
+    source = { ...usable[0], ...rest, description: rest.description ?? usable[0].description };
+  }
+
+  let typeName = source.type;
+  if (Array.isArray(typeName)) {
+    const named = typeName.filter((t) => t !== "null");
+    if (named.length < typeName.length) nullable = true;
+    typeName = named[0];
+  }
+  if (typeName === undefined) {
+    if (source.properties) typeName = "object";
+    else if (source.items) typeName = "array";
+    else if (Array.isArray(source.enum) || source.const !== undefined) {
+      const first = Array.isArray(source.enum) ? source.enum[0] : source.const;
+      typeName = typeof first === "number" ? "number" : typeof first === "boolean" ? "boolean" : "string";
+    }
+  }
+  const type = typeof typeName === "string" ? JSON_TYPES[typeName] : undefined;
+  if (!type) return null;
+
+  const schema: Schema = { type };
+  let description = typeof source.description === "string" ? source.description : undefined;
+  if (nullable || source.nullable === true) schema.nullable = true;
+
+  const values = Array.isArray(source.enum) ? source.enum : source.const !== undefined ? [source.const] : undefined;
+  if (values) {
+    if (type === Type.STRING && values.every((v) => typeof v === "string")) {
+      schema.enum = values as string[];
+    } else {
+      description = `${description ? `${description} ` : ""}One of: ${values.map((v) => JSON.stringify(v)).join(", ")}.`;
+    }
+  }
+  if (description) schema.description = truncateDescription(description);
+
+  if (typeof source.format === "string" && SUPPORTED_FORMATS[type]?.includes(source.format)) {
+    schema.format = source.format;
+  }
+  if (typeof source.minimum === "number") schema.minimum = source.minimum;
+  if (typeof source.maximum === "number") schema.maximum = source.maximum;
+
+  if (type === Type.ARRAY) {
+    schema.items = toGeminiSchema(source.items, depth + 1) ?? { type: Type.STRING };
+    if (typeof source.minItems === "number") schema.minItems = String(source.minItems);
+    if (typeof source.maxItems === "number") schema.maxItems = String(source.maxItems);
+  }
+
+  if (type === Type.OBJECT) {
+    const properties: Record<string, Schema> = {};
+    if (typeof source.properties === "object" && source.properties !== null) {
+      for (const [name, property] of Object.entries(source.properties)) {
+        const converted = toGeminiSchema(property, depth + 1);
+        if (converted) properties[name] = converted;
+      }
+    }
+    // Gemini rejects objects without properties; free-form maps can't be declared
+    if (Object.keys(properties).length === 0) return depth === 0 ? schema : null;
+    schema.properties = properties;
+    const required = Array.isArray(source.required)
+      ? source.required.filter((name): name is string => typeof name === "string" && name in properties)
+      : [];
+    if (required.length > 0) schema.required = required;
+  }
+
+  return schema;
+}
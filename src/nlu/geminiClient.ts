@@ -1,25 +1,54 @@
-import { GoogleGenAI } from "@google/genai";
-import type { ParsedIntent, ConversationTurn } from "../types/gemini.types.js";
+import { GoogleGenAI, FunctionCallingConfigMode, type Content, type GenerateContentConfig } from "@google/genai";
+import type { ParsedIntent, ConversationTurn, AgentStep, AgentAction } from "../types/gemini.types.js";
 import type { DiscoveredTool } from "../types/mcp.types.js";
-import { buildSystemPrompt, FEW_SHOT_EXAMPLES } from "./promptTemplates.js";
+import type { RequestedItem } from "../types/basket.types.js";
+import type { NluProvider, AgentActionOptions } from "./nluProvider.js";
+import {
+  buildSystemPrompt,
+  buildFunctionCallingPrompt,
+  buildAgentPrompt,
+  buildArgumentRepairPrompt,
+  buildValidationRepairMessage,
+  buildRecipePrompt,
+  FEW_SHOT_EXAMPLES,
+} from "./promptTemplates.js";
+import { buildFunctionDeclarations, buildAgentDeclarations } from "./functionDeclarations.js";
+import { INTENT_FUNCTION_NAME, CHECKOUT_FUNCTION_NAME } from "./toolFunctions.js";
+import {
+  isBotHandled,
+  intentFromCalls,
+  validateClassification,
+  validateIntentJson,
+  withIntentDefaults,
+  unknownIntent,
+  parseIngredients,
+} from "./intentResults.js";
+import { MAX_BASKET_ITEMS } from "../config/constants.js";
+import { IntentParsingError } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
 
-export class GeminiClient {
+export class GeminiClient implements NluProvider {
+  readonly description: string;
   private ai: GoogleGenAI;
   private modelId: string;
 
   constructor(apiKey: string, modelId: string = "gemini-2.5-flash") {
     this.ai = new GoogleGenAI({ apiKey });
     this.modelId = modelId;
+    this.description = `gemini (${modelId})`;
   }
 
+  /**
+   * Parse a message into an intent. Once tools have been discovered, each
+   * one is declared to Gemini as a function and the model's function call
+   * becomes the routed tool and arguments. Before that — or if function
+   * calling comes back empty — the model answers with a JSON intent instead.
+   */
   async parseIntent(
     userMessage: string,
     conversationHistory: ConversationTurn[],
     availableTools: DiscoveredTool[],
   ): Promise<ParsedIntent> {
-    const systemPrompt = buildSystemPrompt(availableTools);
-
     // Build conversation context from memory
     const historyContents = conversationHistory
       .slice(-10)
@@ -28,71 +57,264 @@ export class GeminiClient {
         parts: [{ text: turn.content }],
       }));
 
+    if (availableTools.length > 0) {
+      const parsed = await this.parseIntentWithFunctions(userMessage, historyContents, availableTools);
+      if (parsed) return parsed;
+    }
+
     // Build few-shot examples
     const fewShotContents = FEW_SHOT_EXAMPLES.map((ex) => ({
       role: ex.role,
       parts: [{ text: ex.content }],
     }));
 
+    const contents: Content[] = [
+      ...fewShotContents,
+      ...historyContents,
+      { role: "user", parts: [{ text: userMessage }] },
+    ];
+
+    try {
+      let text = await this.generateIntentJson(contents);
+      let validation = validateIntentJson(text);
+
+      // One repair round: show the model its answer and what was wrong with it
+      if (validation.errors.length > 0) {
+        logger.warn("Gemini intent failed validation, asking for a repair", { errors: validation.errors, userMessage });
+        contents.push(
+          { role: "model", parts: [{ text }] },
+          { role: "user", parts: [{ text: buildValidationRepairMessage(validation.errors) }] },
+        );
+        text = await this.generateIntentJson(contents);
+        validation = validateIntentJson(text);
+      }
+      if (validation.errors.length > 0) {
+        throw new IntentParsingError(`Invalid intent after repair: ${validation.errors.join("; ")}`, text);
+      }
+
+      return withIntentDefaults(validation.value, userMessage);
+    } catch (err) {
+      logger.error("Gemini intent parsing failed", {
+        error: String(err),
+        userMessage,
+      });
+
+      return unknownIntent(userMessage);
+    }
+  }
+
+  /**
+   * Native function calling: classify_intent carries the intent and
+   * filters, and a call to a declared tool carries the tool and its
+   * arguments. Returns null when neither came back, so the caller can
+   * fall back to the JSON path.
+   */
+  private async parseIntentWithFunctions(
+    userMessage: string,
+    historyContents: Content[],
+    availableTools: DiscoveredTool[],
+  ): Promise<ParsedIntent | null> {
+    const { declarations, tools } = buildFunctionDeclarations(availableTools);
+
+    const contents: Content[] = [
+      ...historyContents,
+      { role: "user", parts: [{ text: userMessage }] },
+    ];
+    const config: GenerateContentConfig = {
+      systemInstruction: buildFunctionCallingPrompt(INTENT_FUNCTION_NAME),
+      tools: [{ functionDeclarations: declarations }],
+      toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } },
+      temperature: 0.1,
+    };
+
+    try {
+      let response = await this.ai.models.generateContent({ model: this.modelId, contents, config });
+      let calls = response.functionCalls ?? [];
+      logger.debug("Gemini function calls", { calls });
+
+      let intentCall = calls.find((call) => call.name === INTENT_FUNCTION_NAME);
+      let validation = validateClassification(intentCall?.args);
+
+      // One repair round: answer the bad classify_intent call with its errors
+      if (intentCall && validation.errors.length > 0) {
+        logger.warn("classify_intent failed validation, asking for a repair", { errors: validation.errors, userMessage });
+        contents.push(response.candidates?.[0]?.content ?? { role: "model", parts: calls.map((call) => ({ functionCall: call })) });
+        contents.push({
+          role: "user",
+          parts: calls.map((call) => ({
+            functionResponse: {
+              id: call.id,
+              name: call.name,
+              response: call === intentCall
+                ? { error: buildValidationRepairMessage(validation.errors) }
+                : { error: `Not run. Call it again alongside the corrected ${INTENT_FUNCTION_NAME}.` },
+            },
+          })),
+        });
+
+        response = await this.ai.models.generateContent({ model: this.modelId, contents, config });
+        calls = response.functionCalls ?? [];
+        intentCall = calls.find((call) => call.name === INTENT_FUNCTION_NAME);
+        validation = validateClassification(intentCall?.args);
+      }
+      if (intentCall && validation.errors.length > 0) {
+        logger.warn("classify_intent still invalid after repair", { errors: validation.errors, userMessage });
+        return null;
+      }
+
+      const classified = intentCall ? validation.value : {};
+      const toolCall = isBotHandled(classified.intent)
+        ? undefined
+        : calls.find((call) => call.name !== undefined && tools.has(call.name));
+      const tool = toolCall ? tools.get(toolCall.name!) : undefined;
+      if (!intentCall && !tool) {
+        logger.warn("Gemini returned no usable function call", { userMessage, calls: calls.map((call) => call.name) });
+        return null;
+      }
+
+      return intentFromCalls(userMessage, classified, tool, toolCall?.args);
+    } catch (err) {
+      logger.warn("Gemini function calling failed, falling back to JSON intent", {
+        error: String(err),
+        userMessage,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Pick the agent loop's next move for a multi-step request, given the
+   * steps taken so far. Each step is replayed as a function call and its
+   * response. Returns null if the model's answer can't be used.
+   */
+  async nextAgentAction(
+    request: string,
+    steps: AgentStep[],
+    tools: DiscoveredTool[],
+    options: AgentActionOptions,
+  ): Promise<AgentAction | null> {
+    const { declarations, tools: declared } = buildAgentDeclarations(tools, options.checkout);
+    const declaredName = (toolName: string): string =>
+      [...declared.entries()].find(([, tool]) => tool.tool.name === toolName)?.[0] ?? toolName;
+
+    const contents: Content[] = [{ role: "user", parts: [{ text: request }] }];
+    for (const step of steps) {
+      const name = declaredName(step.toolName);
+      contents.push({ role: "model", parts: [{ functionCall: { name, args: step.arguments } }] });
+      contents.push({
+        role: "user",
+        parts: [{ functionResponse: { name, response: step.failed ? { error: step.result } : { output: step.result } } }],
+      });
+    }
+
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.modelId,
+        contents,
+        config: {
+          systemInstruction: buildAgentPrompt(options.checkout ? CHECKOUT_FUNCTION_NAME : null, options.stepsLeft),
+          tools: [{ functionDeclarations: declarations }],
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } },
+          temperature: 0.1,
+        },
+      });
+
+      const call = response.functionCalls?.[0];
+      logger.debug("Gemini agent step", { call, text: call ? undefined : response.text });
+
+      if (call?.name === CHECKOUT_FUNCTION_NAME) return { type: "checkout" };
+      const tool = call?.name ? declared.get(call.name) : undefined;
+      if (tool) return { type: "call", toolName: tool.tool.name, arguments: { ...(call!.args ?? {}) } };
+
+      const text = (response.text ?? "").trim();
+      if (!text) throw new Error(call ? `Unknown function ${call.name}` : "Empty response");
+      return { type: "answer", text };
+    } catch (err) {
+      logger.error("Gemini agent step failed", { error: String(err), request, steps: steps.length });
+      return null;
+    }
+  }
+
+  /**
+   * One repair round for arguments that failed validation against the
+   * tool's inputSchema: the rejected call goes back to the model with the
+   * errors, and it has to call the tool again. Returns null if it doesn't.
+   */
+  async repairToolArguments(
+    userMessage: string,
+    tool: DiscoveredTool,
+    args: Record<string, unknown>,
+    errors: string[],
+  ): Promise<Record<string, unknown> | null> {
+    const { declarations, tools } = buildAgentDeclarations([tool], false);
+    const name = [...tools.keys()][0];
+    // Order-placing tools are never declared, so never repaired either
+    if (!name) return null;
+
     try {
       const response = await this.ai.models.generateContent({
         model: this.modelId,
         contents: [
-          ...fewShotContents,
-          ...historyContents,
           { role: "user", parts: [{ text: userMessage }] },
+          { role: "model", parts: [{ functionCall: { name, args } }] },
+          { role: "user", parts: [{ functionResponse: { name, response: { error: buildValidationRepairMessage(errors) } } }] },
         ],
         config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
+          systemInstruction: buildArgumentRepairPrompt(),
+          tools: [{ functionDeclarations: declarations }],
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY, allowedFunctionNames: [name] } },
           temperature: 0.1,
         },
       });
 
-      const text = response.text ?? "";
-      logger.debug("Gemini response", { text });
+      const call = response.functionCalls?.find((c) => c.name === name);
+      logger.debug("Gemini argument repair", { tool: tool.tool.name, args: call?.args });
+      return call ? { ...(call.args ?? {}) } : null;
+    } catch (err) {
+      logger.error("Gemini argument repair failed", { error: String(err), tool: tool.tool.name });
+      return null;
+    }
+  }
 
-      const parsed: ParsedIntent = JSON.parse(text);
+  private async generateIntentJson(contents: Content[]): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelId,
+      contents,
+      config: {
+        systemInstruction: buildSystemPrompt(),
+        responseMimeType: "application/json",
+        temperature: 0.1,
+      },
+    });
 
-      // Validate required fields
-      if (!parsed.intent || !parsed.service) {
-        throw new Error("Missing required fields");
-      }
+    const text = response.text ?? "";
+    logger.debug("Gemini response", { text });
+    return text;
+  }
 
-      // Ensure filters object exists with defaults
-      parsed.filters = {
-        maxPrice: parsed.filters?.maxPrice ?? undefined,
-        minRating: parsed.filters?.minRating ?? undefined,
-        maxDeliveryTimeMinutes: parsed.filters?.maxDeliveryTimeMinutes ?? undefined,
-        dietaryPreferences: parsed.filters?.dietaryPreferences ?? [],
-        cuisine: parsed.filters?.cuisine ?? [],
-        sortBy: parsed.filters?.sortBy ?? undefined,
-      };
+  /**
+   * Ask the model for a dish's ingredients scaled to the given servings.
+   * Returns an empty list if the model's answer can't be used.
+   */
+  async listIngredients(dish: string, servings: number): Promise<RequestedItem[]> {
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.modelId,
+        contents: [{ role: "user", parts: [{ text: `Ingredients for ${dish}` }] }],
+        config: {
+          systemInstruction: buildRecipePrompt(dish, servings, MAX_BASKET_ITEMS),
+          responseMimeType: "application/json",
+          temperature: 0.2,
+        },
+      });
 
-      parsed.followUp = parsed.followUp ?? false;
-      parsed.originalQuery = parsed.originalQuery ?? userMessage;
+      const text = response.text ?? "";
+      logger.debug("Gemini recipe response", { text });
 
-      return parsed;
+      return parseIngredients(text);
     } catch (err) {
-      logger.error("Gemini intent parsing failed", {
-        error: String(err),
-        userMessage,
-      });
-
-      // Return fallback unknown intent
-      return {
-        intent: "unknown",
-        service: "general",
-        confidence: 0,
-        toolName: null,
-        parameters: {},
-        filters: {
-          dietaryPreferences: [],
-          cuisine: [],
-        },
-        followUp: false,
-        originalQuery: userMessage,
-      };
+      logger.error("Gemini ingredient listing failed", { error: String(err), dish, servings });
+      return [];
     }
   }
 }
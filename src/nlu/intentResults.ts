@@ -0,0 +1,116 @@
+import type { ParsedIntent, IntentCategory } from "../types/gemini.types.js";
+import type { DiscoveredTool, SwiggyService } from "../types/mcp.types.js";
+import type { RequestedItem } from "../types/basket.types.js";
+import { PARSED_INTENT_SCHEMA } from "./intentSchema.js";
+import { INTENT_FUNCTION_NAME } from "./toolFunctions.js";
+import { validateSchema, type SchemaValidation } from "./schemaValidator.js";
+import { MAX_BASKET_ITEMS } from "../config/constants.js";
+
+// Turning model output into ParsedIntents and ingredient lists. Shared by
+// every NluProvider, so they all validate and default the same way.
+
+// Intent assumed when the model calls a tool without classifying the message
+const DEFAULT_TOOL_INTENTS: Record<SwiggyService, IntentCategory> = {
+  food: "food_search",
+  instamart: "grocery_search",
+  dineout: "dineout_search",
+};
+
+// Intents the bot handles itself ignore any tool the model also called
+const BOT_HANDLED_INTENTS: IntentCategory[] = ["grocery_recipe", "grocery_list", "general_help", "auth_request", "unknown"];
+
+export function isBotHandled(intent: IntentCategory | undefined): boolean {
+  return intent !== undefined && BOT_HANDLED_INTENTS.includes(intent);
+}
+
+export function validateClassification(args: unknown): SchemaValidation<Partial<ParsedIntent>> {
+  return validateSchema<Partial<ParsedIntent>>(args ?? {}, PARSED_INTENT_SCHEMA, INTENT_FUNCTION_NAME);
+}
+
+export function validateIntentJson(text: string): SchemaValidation<ParsedIntent> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { value: {} as ParsedIntent, errors: [`response is not valid JSON (${String(err)})`] };
+  }
+  return validateSchema<ParsedIntent>(raw, PARSED_INTENT_SCHEMA, "intent");
+}
+
+/**
+ * Combine classify_intent's (validated) arguments with the tool the model
+ * called. The called tool decides the service and carries the arguments.
+ */
+export function intentFromCalls(
+  userMessage: string,
+  classified: Partial<ParsedIntent>,
+  tool?: DiscoveredTool,
+  toolArgs?: Record<string, unknown>,
+): ParsedIntent {
+  return withIntentDefaults({
+    intent: classified.intent ?? (tool ? DEFAULT_TOOL_INTENTS[tool.service] : "unknown"),
+    service: tool?.service ?? classified.service ?? "general",
+    confidence: typeof classified.confidence === "number" ? classified.confidence : 0.6,
+    toolName: tool?.tool.name ?? null,
+    parameters: tool ? { ...(toolArgs ?? {}) } : { ...(classified.parameters ?? {}) },
+    filters: classified.filters ?? {},
+    followUp: classified.followUp ?? false,
+    multiStep: classified.multiStep ?? false,
+    originalQuery: userMessage,
+  }, userMessage);
+}
+
+export function withIntentDefaults(parsed: ParsedIntent, userMessage: string): ParsedIntent {
+  // Ensure filters object exists with defaults
+  parsed.filters = {
+    maxPrice: parsed.filters?.maxPrice ?? undefined,
+    minRating: parsed.filters?.minRating ?? undefined,
+    maxDeliveryTimeMinutes: parsed.filters?.maxDeliveryTimeMinutes ?? undefined,
+    dietaryPreferences: parsed.filters?.dietaryPreferences ?? [],
+    cuisine: parsed.filters?.cuisine ?? [],
+    sortBy: parsed.filters?.sortBy ?? undefined,
+  };
+
+  parsed.followUp = parsed.followUp ?? false;
+  parsed.multiStep = parsed.multiStep ?? false;
+  parsed.originalQuery = parsed.originalQuery ?? userMessage;
+
+  return parsed;
+}
+
+/** What the bot acts on when the message couldn't be understood at all */
+export function unknownIntent(userMessage: string): ParsedIntent {
+  return {
+    intent: "unknown",
+    service: "general",
+    confidence: 0,
+    toolName: null,
+    parameters: {},
+    filters: {
+      dietaryPreferences: [],
+      cuisine: [],
+    },
+    followUp: false,
+    originalQuery: userMessage,
+  };
+}
+
+/**
+ * Read the recipe prompt's JSON answer. Throws if there's no ingredient list.
+ */
+export function parseIngredients(text: string): RequestedItem[] {
+  const parsed = JSON.parse(text) as { ingredients?: unknown };
+  if (!Array.isArray(parsed.ingredients)) {
+    throw new Error("Missing ingredients list");
+  }
+
+  return parsed.ingredients
+    .filter((i): i is Record<string, unknown> => typeof i === "object" && i !== null && typeof i.name === "string")
+    .map((i) => ({
+      name: String(i.name).trim(),
+      quantity: typeof i.quantity === "number" && i.quantity > 0 ? i.quantity : 1,
+      unit: typeof i.unit === "string" ? i.unit.trim() : "pcs",
+    }))
+    .filter((i) => i.name !== "")
+    .slice(0, MAX_BASKET_ITEMS);
+}
@@ -1,5 +1,6 @@
 import type { ParsedIntent, ConversationTurn } from "../types/gemini.types.js";
 import type { DiscoveredTool, SwiggyService } from "../types/mcp.types.js";
+import { needsConfirmation } from "./toolFunctions.js";
 import { logger } from "../utils/logger.js";
 
 export interface RoutedIntent {
@@ -17,6 +18,8 @@ const INTENT_TOOL_HINTS: Record<string, string[]> = {
   food_view_cart: ["cart", "view", "get"],
   food_checkout: ["checkout", "order", "place"],
   grocery_search: ["search", "product", "find"],
+  grocery_recipe: ["search", "product", "find"],
+  grocery_list: ["search", "product", "find"],
   grocery_add_to_cart: ["cart", "add"],
   grocery_checkout: ["checkout", "order", "place"],
   dineout_search: ["search", "restaurant", "find", "discover"],
@@ -63,10 +66,18 @@ export class IntentRouter {
       });
     }
 
+    // Guessed matches never land on an order-placing or booking tool; an
+    // explicit one above is returned so the caller can redirect it
+    const guessable = serviceTools.filter((t) => !needsConfirmation(t.tool.name));
+    if (guessable.length === 0) {
+      logger.warn("Only confirmation tools available for service", { service });
+      return null;
+    }
+
     // Try to match by intent category hints
     const hints = INTENT_TOOL_HINTS[intent.intent] ?? [];
     for (const hint of hints) {
-      const match = serviceTools.find(
+      const match = guessable.find(
         (t) =>
           t.tool.name.toLowerCase().includes(hint) ||
           (t.tool.description ?? "").toLowerCase().includes(hint),
@@ -82,7 +93,7 @@ export class IntentRouter {
     }
 
     // Fallback: use the first tool for this service (often a search tool)
-    const fallback = serviceTools[0];
+    const fallback = guessable[0];
     logger.info("Using fallback tool", {
       service,
       toolName: fallback.tool.name,
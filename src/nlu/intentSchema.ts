@@ -0,0 +1,44 @@
+import type { IntentCategory } from "../types/gemini.types.js";
+
+export const INTENT_CATEGORIES: IntentCategory[] = [
+  "food_search", "food_menu_browse", "food_add_to_cart", "food_view_cart", "food_checkout",
+  "grocery_search", "grocery_recipe", "grocery_list", "grocery_add_to_cart", "grocery_checkout",
+  "dineout_search", "dineout_details", "dineout_check_slots", "dineout_book_table",
+  "general_help", "auth_request", "unknown",
+];
+
+/**
+ * JSON Schema for ParsedIntent, checked by the schemaValidator against both
+ * the JSON-intent answer and classify_intent's arguments. Defaults fill in
+ * whatever the model is allowed to leave out.
+ */
+export const PARSED_INTENT_SCHEMA = {
+  type: "object",
+  properties: {
+    intent: { type: "string", enum: INTENT_CATEGORIES },
+    service: { type: "string", enum: ["food", "instamart", "dineout", "general"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    toolName: { type: ["string", "null"], default: null },
+    parameters: { type: "object", default: {} },
+    filters: {
+      type: "object",
+      default: {},
+      properties: {
+        maxPrice: { type: ["number", "null"], minimum: 0 },
+        minRating: { type: ["number", "null"], minimum: 0, maximum: 5 },
+        maxDeliveryTimeMinutes: { type: ["number", "null"], minimum: 0 },
+        dietaryPreferences: {
+          type: "array",
+          items: { type: "string", enum: ["veg", "non-veg", "vegan", "egg"] },
+          default: [],
+        },
+        cuisine: { type: "array", items: { type: "string" }, default: [] },
+        sortBy: { type: ["string", "null"], enum: ["price_asc", "price_desc", "rating", "delivery_time", "relevance"] },
+      },
+    },
+    followUp: { type: "boolean", default: false },
+    multiStep: { type: "boolean", default: false },
+    originalQuery: { type: "string" },
+  },
+  required: ["intent", "service", "confidence"],
+};
@@ -0,0 +1,62 @@
+import type { ParsedIntent, ConversationTurn, AgentStep, AgentAction } from "../types/gemini.types.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { RequestedItem } from "../types/basket.types.js";
+import type { AppConfig } from "../config/env.js";
+import { GeminiClient } from "./geminiClient.js";
+import { OpenAiCompatibleClient } from "./openAiCompatibleClient.js";
+
+export interface AgentActionOptions {
+  /** Offer request_checkout (the service has a confirmation flow) */
+  checkout: boolean;
+  stepsLeft: number;
+}
+
+/**
+ * The language model behind the bot. Providers share the prompts in
+ * promptTemplates, the tool catalogue in toolFunctions and the intent
+ * checks in intentResults; each one adapts them to its own API.
+ */
+export interface NluProvider {
+  /** Provider and model, for logs */
+  readonly description: string;
+
+  /**
+   * Parse a message into an intent. Never throws — an unusable answer
+   * comes back as the "unknown" intent with confidence 0.
+   */
+  parseIntent(userMessage: string, conversationHistory: ConversationTurn[], availableTools: DiscoveredTool[]): Promise<ParsedIntent>;
+
+  /**
+   * A dish's ingredients scaled to the given servings. Empty if the
+   * model's answer can't be used.
+   */
+  listIngredients(dish: string, servings: number): Promise<RequestedItem[]>;
+
+  /**
+   * The agent loop's next move, given the steps taken so far. Null if the
+   * model's answer can't be used.
+   */
+  nextAgentAction(request: string, steps: AgentStep[], tools: DiscoveredTool[], options: AgentActionOptions): Promise<AgentAction | null>;
+
+  /**
+   * Re-ask a tool call whose arguments failed validation. Null if the
+   * model doesn't call the tool again.
+   */
+  repairToolArguments(
+    userMessage: string,
+    tool: DiscoveredTool,
+    args: Record<string, unknown>,
+    errors: string[],
+  ): Promise<Record<string, unknown> | null>;
+}
+
+/**
+ * Build the NLU provider selected by NLU_PROVIDER.
+ */
+export function createNluProvider(config: AppConfig): NluProvider {
+  // loadConfig requires the key / model of whichever provider is selected
+  if (config.nluProvider === "openai") {
+    return new OpenAiCompatibleClient(config.openAiBaseUrl, config.openAiModel!, config.openAiApiKey);
+  }
+  return new GeminiClient(config.geminiApiKey!, config.geminiModel);
+}
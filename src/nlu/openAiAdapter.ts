@@ -0,0 +1,142 @@
+import type { ConversationTurn, AgentStep } from "../types/gemini.types.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import { listToolFunctions, type BotFunction } from "./toolFunctions.js";
+import { FEW_SHOT_EXAMPLES } from "./promptTemplates.js";
+
+// The OpenAI-compatible side of the prompts and tool catalogue: chat
+// messages instead of Gemini contents, JSON Schema tools instead of
+// function declarations, and tolerance for the looser output of local
+// models (llama.cpp, Ollama).
+
+/** Chat completions wire format — just the parts the bot uses */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface ChatTool {
+  type: "function";
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export interface ChatToolSet {
+  tools: ChatTool[];
+  /** Function name → the MCP tool it stands for */
+  byName: Map<string, DiscoveredTool>;
+}
+
+// Keys local servers' schema-to-grammar converters tend to choke on
+const DROPPED_SCHEMA_KEYS = new Set(["$schema", "$id", "$defs", "definitions", "$comment", "examples"]);
+
+// Keywords whose values are themselves schemas
+const NESTED_SCHEMA_KEYS = new Set(["items", "additionalProperties", "anyOf", "oneOf", "allOf", "not"]);
+
+const MAX_SCHEMA_DEPTH = 6;
+
+/**
+ * Offer the discovered tools (plus any of the bot's own functions) as
+ * chat-completions tools.
+ */
+export function buildChatTools(tools: DiscoveredTool[], botFunctions: BotFunction[]): ChatToolSet {
+  const byName = new Map<string, DiscoveredTool>();
+  const chatTools: ChatTool[] = [];
+
+  for (const fn of listToolFunctions(tools)) {
+    byName.set(fn.name, fn.tool);
+    chatTools.push(toChatTool(fn.name, fn.description, fn.tool.tool.inputSchema));
+  }
+  for (const fn of botFunctions) {
+    chatTools.push(toChatTool(fn.name, fn.description, fn.parameters));
+  }
+
+  return { tools: chatTools, byName };
+}
+
+/**
+ * MCP tools already speak JSON Schema, so this only strips what local
+ * servers reject: $ref (the definitions it points into are dropped too)
+ * becomes an unconstrained value, and metadata keys are removed.
+ */
+export function toOpenAiSchema(schema: unknown, depth: number = 0): unknown {
+  if (Array.isArray(schema)) return schema.map((item) => toOpenAiSchema(item, depth + 1));
+  if (typeof schema !== "object" || schema === null) return schema;
+  if (depth > MAX_SCHEMA_DEPTH || "$ref" in schema) return {};
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (DROPPED_SCHEMA_KEYS.has(key)) continue;
+    if (key === "properties" && typeof value === "object" && value !== null) {
+      result[key] = Object.fromEntries(Object.entries(value).map(([name, property]) => [name, toOpenAiSchema(property, depth + 1)]));
+    } else {
+      result[key] = NESTED_SCHEMA_KEYS.has(key) ? toOpenAiSchema(value, depth + 1) : value;
+    }
+  }
+  return result;
+}
+
+export function toChatHistory(conversationHistory: ConversationTurn[]): ChatMessage[] {
+  return conversationHistory.slice(-10).map((turn) => ({ role: turn.role, content: turn.content }));
+}
+
+export function fewShotMessages(): ChatMessage[] {
+  return FEW_SHOT_EXAMPLES.map((ex) => ({ role: ex.role === "model" ? "assistant" : "user", content: ex.content }));
+}
+
+/**
+ * Replay agent steps as assistant tool calls and their tool results.
+ */
+export function stepMessages(steps: AgentStep[], functionName: (toolName: string) => string): ChatMessage[] {
+  return steps.flatMap((step, idx): ChatMessage[] => {
+    const id = `step_${idx + 1}`;
+    return [
+      { role: "assistant", content: null, tool_calls: [toolCall(id, functionName(step.toolName), step.arguments)] },
+      { role: "tool", tool_call_id: id, content: JSON.stringify(step.failed ? { error: step.result } : { output: step.result }) },
+    ];
+  });
+}
+
+export function toolCall(id: string, name: string, args: Record<string, unknown>): ChatToolCall {
+  return { id, type: "function", function: { name, arguments: JSON.stringify(args) } };
+}
+
+/**
+ * Arguments arrive as a JSON string; anything unparseable counts as none.
+ */
+export function readArguments(call: ChatToolCall | undefined): Record<string, unknown> {
+  if (!call) return {};
+  try {
+    const args: unknown = JSON.parse(call.function.arguments || "{}");
+    return typeof args === "object" && args !== null && !Array.isArray(args) ? args as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Local models in JSON mode still sometimes wrap their answer in a
+ * markdown code block.
+ */
+export function stripCodeFences(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text.trim();
+}
+
+function toChatTool(name: string, description: string, parameters: unknown): ChatTool {
+  const schema = toOpenAiSchema(parameters) as Record<string, unknown> | undefined;
+  return {
+    type: "function",
+    function: {
+      name,
+      description,
+      parameters: schema && schema.type === "object" ? { properties: {}, ...schema } : { type: "object", properties: {} },
+    },
+  };
+}
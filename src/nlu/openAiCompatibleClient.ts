@@ -0,0 +1,304 @@
+import type { ParsedIntent, ConversationTurn, AgentStep, AgentAction } from "../types/gemini.types.js";
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import type { RequestedItem } from "../types/basket.types.js";
+import type { NluProvider, AgentActionOptions } from "./nluProvider.js";
+import {
+  buildSystemPrompt,
+  buildFunctionCallingPrompt,
+  buildAgentPrompt,
+  buildArgumentRepairPrompt,
+  buildValidationRepairMessage,
+  buildRecipePrompt,
+} from "./promptTemplates.js";
+import {
+  buildChatTools,
+  toChatHistory,
+  fewShotMessages,
+  stepMessages,
+  toolCall,
+  readArguments,
+  stripCodeFences,
+  type ChatMessage,
+  type ChatTool,
+} from "./openAiAdapter.js";
+import { INTENT_FUNCTION, INTENT_FUNCTION_NAME, CHECKOUT_FUNCTION, CHECKOUT_FUNCTION_NAME } from "./toolFunctions.js";
+import {
+  isBotHandled,
+  intentFromCalls,
+  validateClassification,
+  validateIntentJson,
+  withIntentDefaults,
+  unknownIntent,
+  parseIngredients,
+} from "./intentResults.js";
+import { MAX_BASKET_ITEMS, NLU_REQUEST_TIMEOUT_MS } from "../config/constants.js";
+import { IntentParsingError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+type ToolChoice = "auto" | "required" | { type: "function"; function: { name: string } };
+
+interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  tools?: ChatTool[];
+  toolChoice?: ToolChoice;
+  json?: boolean;
+}
+
+/**
+ * NLU over any OpenAI-compatible chat completions endpoint — OpenAI
+ * itself, or a self-hosted llama.cpp / Ollama / vLLM server.
+ *
+ * Mirrors GeminiClient: tool calling first, the JSON-intent path as the
+ * fallback (also when the server or model doesn't support tools), and one
+ * validation repair round on each.
+ */
+export class OpenAiCompatibleClient implements NluProvider {
+  readonly description: string;
+  private baseUrl: string;
+  private modelId: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, modelId: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.modelId = modelId;
+    this.apiKey = apiKey;
+    this.description = `openai-compatible (${modelId} at ${this.baseUrl})`;
+  }
+
+  async parseIntent(
+    userMessage: string,
+    conversationHistory: ConversationTurn[],
+    availableTools: DiscoveredTool[],
+  ): Promise<ParsedIntent> {
+    const history = toChatHistory(conversationHistory);
+
+    if (availableTools.length > 0) {
+      const parsed = await this.parseIntentWithTools(userMessage, history, availableTools);
+      if (parsed) return parsed;
+    }
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: buildSystemPrompt() },
+      ...fewShotMessages(),
+      ...history,
+      { role: "user", content: userMessage },
+    ];
+
+    try {
+      let text = await this.completeJson(messages, 0.1);
+      let validation = validateIntentJson(text);
+
+      // One repair round: show the model its answer and what was wrong with it
+      if (validation.errors.length > 0) {
+        logger.warn("Model intent failed validation, asking for a repair", { errors: validation.errors, userMessage });
+        messages.push(
+          { role: "assistant", content: text },
+          { role: "user", content: buildValidationRepairMessage(validation.errors) },
+        );
+        text = await this.completeJson(messages, 0.1);
+        validation = validateIntentJson(text);
+      }
+      if (validation.errors.length > 0) {
+        throw new IntentParsingError(`Invalid intent after repair: ${validation.errors.join("; ")}`, text);
+      }
+
+      return withIntentDefaults(validation.value, userMessage);
+    } catch (err) {
+      logger.error("Model intent parsing failed", {
+        error: String(err),
+        userMessage,
+      });
+      return unknownIntent(userMessage);
+    }
+  }
+
+  /**
+   * Tool calling: classify_intent carries the intent and filters, and a
+   * call to a discovered tool carries the tool and its arguments. Returns
+   * null when neither came back, so the caller can fall back to JSON.
+   */
+  private async parseIntentWithTools(
+    userMessage: string,
+    history: ChatMessage[],
+    availableTools: DiscoveredTool[],
+  ): Promise<ParsedIntent | null> {
+    const { tools, byName } = buildChatTools(availableTools, [INTENT_FUNCTION]);
+    const messages: ChatMessage[] = [
+      { role: "system", content: buildFunctionCallingPrompt(INTENT_FUNCTION_NAME) },
+      ...history,
+      { role: "user", content: userMessage },
+    ];
+
+    try {
+      let reply = await this.complete({ messages, tools, toolChoice: "required", temperature: 0.1 });
+      let calls = reply.tool_calls ?? [];
+      logger.debug("Model tool calls", { calls });
+
+      let intentCall = calls.find((call) => call.function.name === INTENT_FUNCTION_NAME);
+      let validation = validateClassification(readArguments(intentCall));
+
+      // One repair round: answer the bad classify_intent call with its errors
+      if (intentCall && validation.errors.length > 0) {
+        logger.warn("classify_intent failed validation, asking for a repair", { errors: validation.errors, userMessage });
+        messages.push(reply);
+        for (const call of calls) {
+          messages.push({
+            role: "tool",
+            tool_call_id: call.id,
+            content: JSON.stringify(call === intentCall
+              ? { error: buildValidationRepairMessage(validation.errors) }
+              : { error: `Not run. Call it again alongside the corrected ${INTENT_FUNCTION_NAME}.` }),
+          });
+        }
+
+        reply = await this.complete({ messages, tools, toolChoice: "required", temperature: 0.1 });
+        calls = reply.tool_calls ?? [];
+        intentCall = calls.find((call) => call.function.name === INTENT_FUNCTION_NAME);
+        validation = validateClassification(readArguments(intentCall));
+      }
+      if (intentCall && validation.errors.length > 0) {
+        logger.warn("classify_intent still invalid after repair", { errors: validation.errors, userMessage });
+        return null;
+      }
+
+      const classified = intentCall ? validation.value : {};
+      const call = isBotHandled(classified.intent)
+        ? undefined
+        : calls.find((c) => byName.has(c.function.name));
+      const tool = call ? byName.get(call.function.name) : undefined;
+      if (!intentCall && !tool) {
+        logger.warn("Model returned no usable tool call", { userMessage, calls: calls.map((c) => c.function.name) });
+        return null;
+      }
+
+      return intentFromCalls(userMessage, classified, tool, readArguments(call));
+    } catch (err) {
+      logger.warn("Model tool calling failed, falling back to JSON intent", {
+        error: String(err),
+        userMessage,
+      });
+      return null;
+    }
+  }
+
+  async listIngredients(dish: string, servings: number): Promise<RequestedItem[]> {
+    try {
+      const text = await this.completeJson([
+        { role: "system", content: buildRecipePrompt(dish, servings, MAX_BASKET_ITEMS) },
+        { role: "user", content: `Ingredients for ${dish}` },
+      ], 0.2);
+      logger.debug("Model recipe response", { text });
+      return parseIngredients(text);
+    } catch (err) {
+      logger.error("Model ingredient listing failed", { error: String(err), dish, servings });
+      return [];
+    }
+  }
+
+  async nextAgentAction(
+    request: string,
+    steps: AgentStep[],
+    tools: DiscoveredTool[],
+    options: AgentActionOptions,
+  ): Promise<AgentAction | null> {
+    const { tools: chatTools, byName } = buildChatTools(tools, options.checkout ? [CHECKOUT_FUNCTION] : []);
+    const functionName = (toolName: string): string =>
+      [...byName.entries()].find(([, tool]) => tool.tool.name === toolName)?.[0] ?? toolName;
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: buildAgentPrompt(options.checkout ? CHECKOUT_FUNCTION_NAME : null, options.stepsLeft) },
+      { role: "user", content: request },
+      ...stepMessages(steps, functionName),
+    ];
+
+    try {
+      const reply = await this.complete({ messages, tools: chatTools, toolChoice: "auto", temperature: 0.1 });
+      const call = reply.tool_calls?.[0];
+      logger.debug("Model agent step", { call, text: call ? undefined : reply.content });
+
+      if (call?.function.name === CHECKOUT_FUNCTION_NAME) return { type: "checkout" };
+      const tool = call ? byName.get(call.function.name) : undefined;
+      if (tool) return { type: "call", toolName: tool.tool.name, arguments: readArguments(call) };
+
+      const text = (reply.content ?? "").trim();
+      if (!text) throw new Error(call ? `Unknown function ${call.function.name}` : "Empty response");
+      return { type: "answer", text };
+    } catch (err) {
+      logger.error("Model agent step failed", { error: String(err), request, steps: steps.length });
+      return null;
+    }
+  }
+
+  async repairToolArguments(
+    userMessage: string,
+    tool: DiscoveredTool,
+    args: Record<string, unknown>,
+    errors: string[],
+  ): Promise<Record<string, unknown> | null> {
+    const { tools, byName } = buildChatTools([tool], []);
+    const name = [...byName.keys()][0];
+    // Order-placing tools are never offered, so never repaired either
+    if (!name) return null;
+
+    try {
+      const reply = await this.complete({
+        messages: [
+          { role: "system", content: buildArgumentRepairPrompt() },
+          { role: "user", content: userMessage },
+          { role: "assistant", content: null, tool_calls: [toolCall("rejected", name, args)] },
+          { role: "tool", tool_call_id: "rejected", content: JSON.stringify({ error: buildValidationRepairMessage(errors) }) },
+        ],
+        tools,
+        toolChoice: { type: "function", function: { name } },
+        temperature: 0.1,
+      });
+
+      const call = reply.tool_calls?.find((c) => c.function.name === name);
+      logger.debug("Model argument repair", { tool: tool.tool.name, args: call?.function.arguments });
+      return call ? readArguments(call) : null;
+    } catch (err) {
+      logger.error("Model argument repair failed", { error: String(err), tool: tool.tool.name });
+      return null;
+    }
+  }
+
+  private async completeJson(messages: ChatMessage[], temperature: number): Promise<string> {
+    const reply = await this.complete({ messages, temperature, json: true });
+    const text = stripCodeFences(reply.content ?? "");
+    logger.debug("Model response", { text });
+    return text;
+  }
+
+  private async complete(request: CompletionRequest): Promise<ChatMessage> {
+    const body: Record<string, unknown> = {
+      model: this.modelId,
+      messages: request.messages,
+      temperature: request.temperature,
+    };
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools;
+      body.tool_choice = request.toolChoice ?? "auto";
+    }
+    if (request.json) body.response_format = { type: "json_object" };
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(NLU_REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Chat completion failed: HTTP ${response.status} ${detail.substring(0, 200)}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: ChatMessage }> };
+    const message = data.choices?.[0]?.message;
+    if (!message) throw new Error("Chat completion returned no message");
+    return { role: "assistant", content: message.content ?? null, tool_calls: message.tool_calls?.length ? message.tool_calls : undefined };
+  }
+}
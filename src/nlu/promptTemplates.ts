@@ -1,29 +1,60 @@
-import type { DiscoveredTool } from "../types/mcp.types.js";
-
-export function buildSystemPrompt(tools: DiscoveredTool[]): string {
-  const toolDescriptions = tools.length > 0
-    ? tools
-        .map(
-          (t) =>
-            `- Service: ${t.service} | Tool: ${t.tool.name} | Description: ${t.tool.description ?? "N/A"} | Parameters: ${JSON.stringify(t.tool.inputSchema ?? {})}`,
-        )
-        .join("\n")
-    : "No tools discovered yet. Use general intent classification based on the categories below.";
+// Intent rules shared by the function-calling and JSON prompts
+const INTENT_RULES = `## Intents
+food_search, food_menu_browse, food_add_to_cart, food_view_cart, food_checkout, grocery_search, grocery_recipe, grocery_list, grocery_add_to_cart, grocery_checkout, dineout_search, dineout_details, dineout_check_slots, dineout_book_table, general_help, auth_request, unknown
 
+## Rules:
+1. Extract ALL relevant parameters from the user's natural language.
+2. "under 200" or "below 200" or "less than 200" means maxPrice: 200.
+3. "in 30 mins" or "delivered in half an hour" means maxDeliveryTimeMinutes: 30.
+4. "veg only" or "pure veg" or "vegetarian" means dietaryPreferences: ["veg"].
+5. "non-veg" or "chicken" or "mutton" or "fish" implies dietaryPreferences: ["non-veg"].
+6. If the user says "show me more" or "next" after a previous search, set followUp: true.
+7. If the user modifies a constraint like "make it cheaper" or "under 150 instead", set followUp: true.
+8. If the user says "make it vegetarian" or changes dietary preference, set followUp: true with updated filters.
+9. For recipe/ingredient queries like "how to make X" or "ingredients for X", use grocery_recipe with instamart and parameters { "dish": "<X>", "servings": <number of people, or 2 if not stated> }.
+10. For shopping lists naming several groceries, like "Order 2L milk, a dozen eggs and brown bread", use grocery_list with instamart and parameters { "items": ["2L milk", "a dozen eggs", "brown bread"] } — one string per item, quantities exactly as the user wrote them. A single product ("find me some basmati rice") is still grocery_search.
+11. For ambiguous queries, pick the most likely intent with a lower confidence score.
+12. For queries about groceries, ingredients, recipes, use service "instamart".
+13. For queries about restaurants, food delivery, use service "food".
+14. For queries about dining out, reservations, table booking, use service "dineout".
+15. Price, delivery time, and dietary constraints go in the filters, not in tool arguments (unless the tool's parameters have those fields).
+16. Set multiStep: true when the request needs several tools in a row — "add a paneer roll from the closest place to my cart" needs a restaurant search, then its menu, then add-to-cart. A plain search, a recipe or a shopping list is not multi-step.`;
+
+/**
+ * System prompt for native function calling: every discovered MCP tool is
+ * declared as a function, plus classify_intent for intent and filters.
+ */
+export function buildFunctionCallingPrompt(intentFunctionName: string): string {
   return `You are an intent parser for a Swiggy food/grocery/dining assistant Telegram bot.
 
-Your job: Given a user message and conversation history, output a JSON object describing the user's intent.
+Your job: Given a user message and conversation history, describe what the user wants by calling functions.
 
-## Available Swiggy MCP Tools
-${toolDescriptions}
+## How to respond
+- ALWAYS call ${intentFunctionName} exactly once with the intent, service, confidence, filters, followUp and multiStep.
+- When one of the Swiggy tools fits the request, ALSO call that tool in the same turn, with arguments taken from the user's message and matching its parameters exactly. Call at most one Swiggy tool.
+- Do not call a Swiggy tool for grocery_recipe, grocery_list, general_help or auth_request — those are handled by the bot itself.
+- Never answer in plain text.
+
+${INTENT_RULES}`;
+}
+
+/**
+ * System prompt for the JSON-intent path, used before any tools have been
+ * discovered (and whenever function calling fails). Tools are matched to
+ * the intent afterwards by the IntentRouter.
+ */
+export function buildSystemPrompt(): string {
+  return `You are an intent parser for a Swiggy food/grocery/dining assistant Telegram bot.
+
+Your job: Given a user message and conversation history, output a JSON object describing the user's intent.
 
 ## Output Schema (STRICT JSON, no markdown, no code blocks):
 {
-  "intent": "<one of: food_search, food_menu_browse, food_add_to_cart, food_view_cart, food_checkout, grocery_search, grocery_add_to_cart, grocery_checkout, dineout_search, dineout_details, dineout_check_slots, dineout_book_table, general_help, auth_request, unknown>",
+  "intent": "<one of the intents below>",
   "service": "<food | instamart | dineout | general>",
   "confidence": <0.0 to 1.0>,
-  "toolName": "<exact tool name from available tools, or null if no tool match>",
-  "parameters": { <key-value pairs matching the tool's inputSchema> },
+  "toolName": null,
+  "parameters": { <key-value pairs extracted from the message> },
   "filters": {
     "maxPrice": <number or null>,
     "minRating": <number or null>,
@@ -33,34 +64,76 @@ ${toolDescriptions}
     "sortBy": "<price_asc | price_desc | rating | delivery_time | relevance | null>"
   },
   "followUp": <true if referencing previous context, false otherwise>,
+  "multiStep": <true if several tools are needed in a row, false otherwise>,
   "originalQuery": "<the user's original message>"
 }
 
-## CRITICAL — Tool Name and Parameter Matching:
-When tools are listed above in "Available Swiggy MCP Tools", you MUST:
-- Set "toolName" to the EXACT tool name from the list (e.g., "search_restaurants", "get_addresses")
-- Set "parameters" to match that tool's inputSchema EXACTLY — use the correct parameter names from the schema, not generic names like "query"
-- Study each tool's inputSchema carefully and populate all required fields
-- Price, delivery time, and dietary filters go in the "filters" object, NOT in "parameters" (unless the tool's inputSchema has those fields)
-- The few-shot examples below use toolName: null because they were created before tool discovery. IGNORE that pattern when real tools are available above.
+${INTENT_RULES}
+17. Always set toolName to null — the bot picks the tool itself.
+18. ALWAYS output valid JSON only. No explanations, no markdown, no code blocks.`;
+}
+
+/**
+ * System prompt for the agent loop, which works through a multi-step
+ * request one tool call at a time.
+ */
+export function buildAgentPrompt(checkoutFunctionName: string | null, stepsLeft: number): string {
+  const checkout = checkoutFunctionName
+    ? `- If the user asked to place the order, call ${checkoutFunctionName} once everything is in the cart. The user confirms the bill before anything is ordered.`
+    : "- You cannot place orders or book tables. Once everything else is done, tell the user what to do next.";
+
+  return `You are completing a request for a Swiggy food/grocery/dining assistant Telegram bot by calling tools, one at a time.
+
+## How to work
+- Call one tool per turn. You'll see each result before choosing the next call.
+- Take ids (restaurant ids, item ids, product ids) from earlier results. Never invent ids or arguments.
+- Respect the user's constraints (price, dietary preference, distance) when picking restaurants and items.
+- If a call fails, fix the arguments or try another tool — don't repeat the same failing call.
+${checkout}
+- When the request is done, or can't be done, stop calling tools and reply with a short plain-text summary for the user: what you did, with names and prices. No markdown.
+- You have at most ${stepsLeft} more tool call${stepsLeft === 1 ? "" : "s"}.`;
+}
+
+/**
+ * Follow-up sent after an answer failed schema validation, listing
+ * exactly what was wrong with it.
+ */
+export function buildValidationRepairMessage(errors: string[]): string {
+  return `That didn't pass validation:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Fix exactly these problems and answer again in the same form. Keep everything that was already valid.`;
+}
+
+/**
+ * System prompt for re-asking a tool call whose arguments were rejected.
+ */
+export function buildArgumentRepairPrompt(): string {
+  return `You fill in arguments for Swiggy tool calls made by a Telegram bot.
+
+The previous call's arguments were rejected. Call the same tool again with arguments that satisfy its parameter schema:
+- Use the exact parameter names and types from the schema, and include every required parameter.
+- Take values from the user's message. Never invent ids; if a required value isn't known, use the closest thing the user said (e.g. a search query).`;
+}
+
+export function buildRecipePrompt(dish: string, servings: number, maxIngredients: number): string {
+  return `You are a recipe assistant for an Indian grocery delivery app (Instamart).
+
+List the ingredients needed to make "${dish}" for ${servings} ${servings === 1 ? "serving" : "servings"}.
+
+## Output Schema (STRICT JSON, no markdown, no code blocks):
+{
+  "ingredients": [
+    { "name": "<grocery product to search for, e.g. \"fresh strawberries\">", "quantity": <number>, "unit": "<g | kg | ml | l | pcs | tsp | tbsp | cup>" }
+  ]
+}
 
 ## Rules:
-1. Extract ALL relevant parameters from the user's natural language.
-2. "under 200" or "below 200" or "less than 200" means maxPrice: 200.
-3. "in 30 mins" or "delivered in half an hour" means maxDeliveryTimeMinutes: 30.
-4. "veg only" or "pure veg" or "vegetarian" means dietaryPreferences: ["veg"].
-5. "non-veg" or "chicken" or "mutton" or "fish" implies dietaryPreferences: ["non-veg"].
-6. If the user says "show me more" or "next" after a previous search, set followUp: true.
-7. If the user modifies a constraint like "make it cheaper" or "under 150 instead", set followUp: true.
-8. If the user says "make it vegetarian" or changes dietary preference, set followUp: true with updated filters.
-9. For recipe/ingredient queries like "how to make X" or "ingredients for X", use grocery_search with instamart.
-10. For ambiguous queries, pick the most likely intent with a lower confidence score.
-11. ALWAYS output valid JSON only. No explanations, no markdown, no code blocks.
-12. Map the intent to the closest matching tool from the available tools list.
-13. If no tool matches, set toolName to null.
-14. For queries about groceries, ingredients, recipes, use service "instamart".
-15. For queries about restaurants, food delivery, use service "food".
-16. For queries about dining out, reservations, table booking, use service "dineout".`;
+1. Scale every quantity to ${servings} ${servings === 1 ? "serving" : "servings"}.
+2. At most ${maxIngredients} ingredients, most important first.
+3. Leave out water, ice, and salt unless the dish is built around them.
+4. Name ingredients the way they are sold in a grocery store, not how they are prepared (e.g. "onion", not "chopped onion").
+5. ALWAYS output valid JSON only. No explanations, no markdown, no code blocks.`;
 }
 
 export const FEW_SHOT_EXAMPLES = [
@@ -95,11 +168,11 @@ export const FEW_SHOT_EXAMPLES = [
   {
     role: "model" as const,
     content: JSON.stringify({
-      intent: "grocery_search",
+      intent: "grocery_recipe",
       service: "instamart",
       confidence: 0.9,
       toolName: null,
-      parameters: { query: "strawberry shake ingredients" },
+      parameters: { dish: "strawberry shake", servings: 2 },
       filters: {
         maxPrice: null,
         minRating: null,
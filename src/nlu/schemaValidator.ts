@@ -0,0 +1,203 @@
+/** Result of checking a value against a JSON Schema */
+export interface SchemaValidation<T = unknown> {
+  /** The value after type coercion and defaults */
+  value: T;
+  /** One line per problem, e.g. "arguments.query: required" — empty when valid */
+  errors: string[];
+}
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Check a value against the JSON Schema subset MCP tools and our own
+ * intent schema use: type (including type arrays and nullable), enum,
+ * const, properties, required, additionalProperties, items, anyOf / oneOf /
+ * allOf, and the usual numeric, string and array bounds. $ref is not
+ * followed.
+ *
+ * Model output is loose, so values are coerced where the intent is clear —
+ * "2" → 2 for numbers, "true" → true, a lone value → [value] for arrays,
+ * enum values matched case-insensitively — and missing properties with a
+ * default get it. Properties not allowed by additionalProperties: false
+ * are dropped rather than reported.
+ */
+export function validateSchema<T = unknown>(value: unknown, schema: unknown, root: string = "value"): SchemaValidation<T> {
+  const errors: string[] = [];
+  const checked = check(value, schema, root, errors);
+  return { value: checked as T, errors };
+}
+
+function check(value: unknown, schema: unknown, path: string, errors: string[]): unknown {
+  if (!isObject(schema)) return value;
+
+  const branches = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(branches)) {
+    for (const branch of branches) {
+      const branchErrors: string[] = [];
+      const checked = check(value, { ...schema, anyOf: undefined, oneOf: undefined, ...(isObject(branch) ? branch : {}) }, path, branchErrors);
+      if (branchErrors.length === 0) return checked;
+    }
+    errors.push(`${path}: doesn't match any of the allowed shapes`);
+    return value;
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const part of schema.allOf) value = check(value, part, path, errors);
+  }
+
+  if (value === undefined) return value;
+
+  const types = typeList(schema);
+  if (value === null && (types?.includes("null") || schema.nullable === true)) return null;
+  if (types) {
+    const coerced = coerce(value, types);
+    if (!coerced.ok) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${describe(value)}`);
+      return value;
+    }
+    value = coerced.value;
+  }
+
+  const allowed = Array.isArray(schema.enum) ? schema.enum : schema.const !== undefined ? [schema.const] : undefined;
+  if (allowed) {
+    const match = allowed.find((option) => option === value
+      || (typeof option === "string" && typeof value === "string" && option.toLowerCase() === value.trim().toLowerCase())
+      || (typeof option !== typeof value && option !== null && String(option) === String(value)));
+    if (match === undefined) {
+      errors.push(`${path}: must be one of ${allowed.map((option) => JSON.stringify(option)).join(", ")}`);
+      return value;
+    }
+    value = match;
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+    if (typeof schema.maximum === "number" && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) errors.push(`${path}: must be more than ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === "string" && !matchesPattern(value, schema.pattern)) errors.push(`${path}: must match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) errors.push(`${path}: needs at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) errors.push(`${path}: allows at most ${schema.maxItems} items`);
+    if (isObject(schema.items)) value = value.map((item, idx) => check(item, schema.items, `${path}[${idx}]`, errors));
+  }
+
+  if (isObject(value)) value = checkObject(value, schema, path, errors);
+
+  return value;
+}
+
+function checkObject(value: Record<string, unknown>, schema: JsonSchema, path: string, errors: string[]): Record<string, unknown> {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required) ? schema.required.filter((name): name is string => typeof name === "string") : [];
+  const result: Record<string, unknown> = {};
+
+  for (const [key, property] of Object.entries(value)) {
+    // Assigning it would replace the result's prototype
+    if (key === "__proto__") continue;
+    if (Object.hasOwn(properties, key)) {
+      result[key] = check(property, properties[key], `${path}.${key}`, errors);
+    } else if (isObject(schema.additionalProperties)) {
+      result[key] = check(property, schema.additionalProperties, `${path}.${key}`, errors);
+    } else if (schema.additionalProperties !== false) {
+      result[key] = property;
+    }
+  }
+
+  for (const [key, property] of Object.entries(properties)) {
+    if (key === "__proto__") continue;
+    if (!isSet(result, key) && isObject(property) && property.default !== undefined) {
+      result[key] = structuredClone(property.default);
+    }
+  }
+  for (const key of required) {
+    if (!isSet(result, key)) errors.push(`${path}.${key}: required`);
+  }
+
+  return result;
+}
+
+function coerce(value: unknown, types: string[]): { ok: boolean; value?: unknown } {
+  // An exact match wins over any coercion
+  if (types.some((type) => matchesType(value, type))) return { ok: true, value };
+
+  for (const type of types) {
+    if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+      return { ok: true, value: String(value) };
+    }
+    if ((type === "number" || type === "integer") && typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+      const num = Number(value);
+      if (type === "number" || Number.isInteger(num)) return { ok: true, value: num };
+    }
+    if (type === "integer" && typeof value === "number" && Number.isFinite(value) && Math.abs(value - Math.round(value)) < 1e-9) {
+      return { ok: true, value: Math.round(value) };
+    }
+    if (type === "boolean" && typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+      return { ok: true, value: value.trim().toLowerCase() === "true" };
+    }
+    if (type === "array" && value !== null && typeof value !== "object") {
+      return { ok: true, value: [value] };
+    }
+    if (type === "object" && typeof value === "string") {
+      try {
+        const parsed: unknown = JSON.parse(value);
+        if (isObject(parsed)) return { ok: true, value: parsed };
+      } catch {
+        // Not JSON — falls through to the type error
+      }
+    }
+  }
+  return { ok: false };
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return typeof value === "number" && Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "array": return Array.isArray(value);
+    case "object": return isObject(value);
+    case "null": return value === null;
+    default: return true;
+  }
+}
+
+function typeList(schema: JsonSchema): string[] | null {
+  if (typeof schema.type === "string") return [schema.type];
+  if (Array.isArray(schema.type)) return schema.type.filter((type): type is string => typeof type === "string");
+  if (isObject(schema.properties)) return ["object"];
+  if (isObject(schema.items)) return ["array"];
+  return null;
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, "u").test(value);
+  } catch {
+    // A pattern JavaScript can't compile isn't the model's fault
+    return true;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${JSON.stringify(value)}`.substring(0, 60);
+}
+
+/** Own, defined property — inherited names like toString don't count */
+function isSet(obj: Record<string, unknown>, key: string): boolean {
+  return Object.hasOwn(obj, key) && obj[key] !== undefined;
+}
+
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
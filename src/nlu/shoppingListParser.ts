@@ -0,0 +1,131 @@
+import type { RequestedItem } from "../types/basket.types.js";
+
+// Spellings users type → the unit we store. Anything sold by count becomes
+// "pcs"; containers ("2 packets of …") become "pack".
+const UNIT_ALIASES: Record<string, string> = {
+  g: "g", gm: "g", gms: "g", gram: "g", grams: "g", gr: "g",
+  kg: "kg", kgs: "kg", kilo: "kg", kilos: "kg",
+  ml: "ml",
+  l: "L", ltr: "L", ltrs: "L", litre: "L", litres: "L", liter: "L", liters: "L",
+  pc: "pcs", pcs: "pcs", piece: "pcs", pieces: "pcs",
+  pack: "pack", packs: "pack", packet: "pack", packets: "pack", pkt: "pack", pkts: "pack",
+  bottle: "pack", bottles: "pack", box: "pack", boxes: "pack", can: "pack", cans: "pack",
+  loaf: "pack", loaves: "pack", bunch: "pack", bunches: "pack",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+};
+
+// Leading filler before the first item: "order", "can you get me", "I need", …
+const LEAD_IN = /^(please\s+)?((can|could)\s+you\s+)?(order|buy|get|add|i\s+need|i\s+want|we\s+need)(\s+me|\s+us)?\s+(some\s+)?/i;
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join("|");
+const NUMBER_PATTERN = `\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join("|")}`;
+
+// "2L milk", "500 g of paneer", "3 packets bread"
+const AMOUNT_FIRST = new RegExp(`^(${NUMBER_PATTERN})\\s*(${UNIT_PATTERN})\\.?\\s+(?:of\\s+)?(.+)$`, "i");
+// "milk 2L", "paneer - 500g", "eggs x 12"
+const AMOUNT_LAST = new RegExp(`^(.+?)\\s*(?:-|x|×)?\\s*(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})?\\.?$`, "i");
+// "a dozen eggs", "half a dozen bananas", "2 dozen eggs"
+const DOZEN = new RegExp(`^(half\\s+(?:a\\s+)?|(?:${NUMBER_PATTERN})\\s+)?dozens?\\s+(?:of\\s+)?(.+)$`, "i");
+// "2 onions", "a cucumber"
+const COUNT_FIRST = new RegExp(`^(${NUMBER_PATTERN})\\s+(.+)$`, "i");
+// "and" / "&" / "plus" between two items; captured so a kept joiner reads as typed
+const JOINER = /\s+(and|&|plus)\s+/i;
+// The text after a joiner starts a new item: "… and 2 onions", "… and half a dozen eggs"
+const QUANTITY_LED = new RegExp(`^(?:(?:${NUMBER_PATTERN}|half)\\b|\\d)`, "i");
+
+/**
+ * Turns a shopping list ("Order 2L milk, a dozen eggs and brown bread")
+ * into one RequestedItem per line with a normalised quantity and unit.
+ * Lines without a quantity default to one pack.
+ */
+export class ShoppingListParser {
+  /**
+   * Parse a whole message, splitting it on commas, semicolons and new
+   * lines, and on "and" / "&" / "plus" between two items.
+   */
+  parse(text: string): RequestedItem[] {
+    const body = text.trim().replace(LEAD_IN, "");
+    return this.parseLines(body.split(/\s*[,;\n]\s*/).flatMap((line) => this.splitJoined(line)));
+  }
+
+  /**
+   * Parse lines that are already split (e.g. by the intent parser).
+   */
+  parseLines(lines: string[]): RequestedItem[] {
+    return lines
+      .map((line) => this.parseLine(line))
+      .filter((item): item is RequestedItem => item !== null);
+  }
+
+  parseLine(raw: string): RequestedItem | null {
+    const line = raw.trim().replace(/^[-*•]\s*/, "").replace(/[.!?]+$/, "");
+    if (!line) return null;
+
+    let match = DOZEN.exec(line);
+    if (match) {
+      const prefix = (match[1] ?? "").trim().toLowerCase();
+      const dozens = prefix.startsWith("half") ? 0.5 : prefix ? this.toNumber(prefix) : 1;
+      return this.item(match[2], dozens * 12, "pcs");
+    }
+
+    match = AMOUNT_FIRST.exec(line);
+    if (match) return this.item(match[3], this.toNumber(match[1]), UNIT_ALIASES[match[2].toLowerCase()]);
+
+    match = AMOUNT_LAST.exec(line);
+    if (match && (match[3] || /\s(x|×)\s*\d/i.test(line))) {
+      return this.item(match[1], this.toNumber(match[2]), match[3] ? UNIT_ALIASES[match[3].toLowerCase()] : "pcs");
+    }
+
+    match = COUNT_FIRST.exec(line);
+    if (match) {
+      // "2 onions" is a count; "1 brown bread" is a pack
+      const count = this.toNumber(match[1]);
+      return this.item(match[2], count, /s$/i.test(match[2]) && count > 1 ? "pcs" : "pack");
+    }
+
+    return this.item(line, 1, "pack");
+  }
+
+  /**
+   * Split a line on its joiners where one item ends and another begins:
+   * the next part starts with a quantity, or the part so far is already a
+   * measured item ("2L milk", "a dozen eggs"). Anything else is part of a
+   * name, so "mac and cheese" and "2 bread and butter" stay one item.
+   */
+  private splitJoined(line: string): string[] {
+    const parts = line.split(JOINER);
+    const items = [parts[0]];
+    for (let i = 1; i < parts.length; i += 2) {
+      const current = items[items.length - 1];
+      const next = parts[i + 1];
+      if (QUANTITY_LED.test(next) || this.isMeasured(current)) {
+        items.push(next);
+      } else {
+        items[items.length - 1] = `${current} ${parts[i]} ${next}`;
+      }
+    }
+    return items;
+  }
+
+  private isMeasured(segment: string): boolean {
+    const line = segment.trim();
+    if (DOZEN.test(line) || AMOUNT_FIRST.test(line)) return true;
+    const match = AMOUNT_LAST.exec(line);
+    return !!match && !!match[3];
+  }
+
+  private item(name: string, quantity: number, unit: string): RequestedItem | null {
+    const cleaned = name.trim().replace(/^(some|of)\s+/i, "");
+    if (!cleaned || !Number.isFinite(quantity) || quantity <= 0) return null;
+    return { name: cleaned, quantity, unit };
+  }
+
+  private toNumber(token: string): number {
+    const word = NUMBER_WORDS[token.toLowerCase()];
+    return word ?? parseFloat(token);
+  }
+}
@@ -0,0 +1,116 @@
+import type { DiscoveredTool } from "../types/mcp.types.js";
+import { INTENT_CATEGORIES } from "./intentSchema.js";
+import { SERVICE_LABELS, CONFIRMATION_TOOL_PATTERNS } from "../config/constants.js";
+
+/** Function the model calls to report the intent, service and filters */
+export const INTENT_FUNCTION_NAME = "classify_intent";
+
+/** Function the agent calls when the cart is ready to be ordered */
+export const CHECKOUT_FUNCTION_NAME = "request_checkout";
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/** A discovered MCP tool as offered to the model */
+export interface ToolFunction {
+  /** Service-prefixed, provider-safe function name */
+  name: string;
+  description: string;
+  tool: DiscoveredTool;
+}
+
+/** A function the bot handles itself, with its parameters as JSON Schema */
+export interface BotFunction {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * The tools every NLU provider offers the model, before translation into
+ * its own function-calling format. Order-placing and booking tools are
+ * left out. Names are prefixed with their service, since the same tool
+ * name can exist on more than one Swiggy server.
+ */
+export function listToolFunctions(tools: DiscoveredTool[]): ToolFunction[] {
+  const functions = new Map<string, ToolFunction>();
+  for (const tool of tools) {
+    if (needsConfirmation(tool.tool.name)) continue;
+    const name = toFunctionName(tool);
+    if (functions.has(name)) continue;
+    functions.set(name, {
+      name,
+      description: truncateDescription(`${SERVICE_LABELS[tool.service]}: ${tool.tool.description ?? tool.tool.name}`),
+      tool,
+    });
+  }
+  return [...functions.values()];
+}
+
+/**
+ * Tools that place an order or book a table. Never offered to the model,
+ * and never called without the user confirming first.
+ */
+export function needsConfirmation(toolName: string): boolean {
+  return CONFIRMATION_TOOL_PATTERNS.some((pattern) => pattern.test(toolName));
+}
+
+export function truncateDescription(text: string): string {
+  return text.length > MAX_DESCRIPTION_LENGTH ? `${text.substring(0, MAX_DESCRIPTION_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Letters, digits, underscores, dots and dashes, up to 64 characters —
+ * safe for both Gemini and OpenAI-style function names.
+ */
+function toFunctionName(tool: DiscoveredTool): string {
+  const name = `${tool.service}__${tool.tool.name}`.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  return name.substring(0, 64);
+}
+
+export const INTENT_FUNCTION: BotFunction = {
+  name: INTENT_FUNCTION_NAME,
+  description: "Report what the user wants. Call this for every message.",
+  parameters: {
+    type: "object",
+    properties: {
+      intent: { type: "string", enum: INTENT_CATEGORIES },
+      service: { type: "string", enum: ["food", "instamart", "dineout", "general"] },
+      confidence: { type: "number", description: "0.0 to 1.0", minimum: 0, maximum: 1 },
+      followUp: { type: "boolean", description: "True if the message refines or continues the previous request" },
+      multiStep: {
+        type: "boolean",
+        description: "True if the request needs several tools in a row, e.g. finding a restaurant, opening its menu and adding a dish to the cart",
+      },
+      filters: {
+        type: "object",
+        properties: {
+          maxPrice: { type: "number" },
+          minRating: { type: "number" },
+          maxDeliveryTimeMinutes: { type: "number" },
+          dietaryPreferences: { type: "array", items: { type: "string", enum: ["veg", "non-veg", "vegan", "egg"] } },
+          cuisine: { type: "array", items: { type: "string" } },
+          sortBy: { type: "string", enum: ["price_asc", "price_desc", "rating", "delivery_time", "relevance"] },
+        },
+      },
+      parameters: {
+        type: "object",
+        description: "Details the bot handles itself: recipes, shopping lists and table bookings",
+        properties: {
+          dish: { type: "string" },
+          servings: { type: "integer" },
+          items: { type: "array", items: { type: "string" } },
+          restaurantId: { type: "string" },
+          restaurantName: { type: "string" },
+          party_size: { type: "integer" },
+          query: { type: "string" },
+        },
+      },
+    },
+    required: ["intent", "service", "confidence"],
+  },
+};
+
+export const CHECKOUT_FUNCTION: BotFunction = {
+  name: CHECKOUT_FUNCTION_NAME,
+  description: "The user asked to place the order and everything is in the cart. Shows them the bill to confirm — nothing is ordered until they do.",
+};
@@ -0,0 +1,63 @@
+/** Base unit pack sizes and requested amounts are normalised to */
+export type UnitBase = "g" | "ml" | "pc";
+
+export interface PackSize {
+  amount: number;
+  base: UnitBase;
+}
+
+/** One recipe ingredient or shopping-list line to find on Instamart */
+export interface RequestedItem {
+  name: string;
+  quantity: number;
+  /**
+   * "g", "kg", "ml", "L", "pcs", "tbsp", … — or "pack", meaning `quantity`
+   * is a number of packs rather than an amount
+   */
+  unit: string;
+}
+
+/** An Instamart product considered for one requested item */
+export interface ProductMatch {
+  id: string;
+  name: string;
+  price?: number;
+  /** Pack size as listed, e.g. "500 g" */
+  packLabel?: string;
+  /** Parsed pack size, when the label was understood */
+  pack?: PackSize;
+  inStock: boolean;
+}
+
+export interface BasketLine {
+  request: RequestedItem;
+  /** Ranked best-first; empty when the search found nothing usable */
+  candidates: ProductMatch[];
+  /** Index into candidates of the product currently picked */
+  choice: number;
+  /** Packs of the picked product needed to cover the requested quantity */
+  packs: number;
+  removed: boolean;
+}
+
+/** "unknown": an add call threw, so whether it went through can't be told */
+export type BasketStatus = "open" | "adding" | "added" | "unknown";
+
+/**
+ * Where a basket came from. Recipes pick the cheapest product per unit;
+ * shopping lists pick the pack sizes that best fit the requested quantity.
+ */
+export type BasketKind = "recipe" | "list";
+
+/** Requested items matched to Instamart products, reviewed before adding to cart */
+export interface GroceryBasket {
+  /** Short id carried by the basket's buttons, so stale keyboards are detectable */
+  id: string;
+  kind: BasketKind;
+  /** Dish name for recipes, "Shopping list" otherwise */
+  title: string;
+  servings?: number;
+  lines: BasketLine[];
+  status: BasketStatus;
+  expiresAt: number;
+}
@@ -0,0 +1,26 @@
+export interface DineoutSlot {
+  /** Slot identifier, when the slot tool provides one */
+  id?: string;
+  /** Time as returned by Swiggy, e.g. "19:30" */
+  time: string;
+  /** Offer attached to this slot, e.g. "Flat 20% off" */
+  offer?: string;
+}
+
+export type BookingStatus = "choosing" | "booking" | "booked";
+
+/** A table booking being assembled step by step through inline buttons */
+export interface BookingWizard {
+  /** Short id carried by the wizard's buttons, so stale keyboards are detectable */
+  id: string;
+  restaurantId: string;
+  restaurantName: string;
+  /** YYYY-MM-DD in the restaurant's timezone */
+  date?: string;
+  guests?: number;
+  slots?: DineoutSlot[];
+  slot?: DineoutSlot;
+  status: BookingStatus;
+  bookingId?: string;
+  expiresAt: number;
+}
@@ -5,6 +5,8 @@ export type IntentCategory =
   | "food_view_cart"
   | "food_checkout"
   | "grocery_search"
+  | "grocery_recipe"
+  | "grocery_list"
   | "grocery_add_to_cart"
   | "grocery_checkout"
   | "dineout_search"
@@ -32,9 +34,27 @@ export interface ParsedIntent {
   parameters: Record<string, unknown>;
   filters: ResultFilters;
   followUp: boolean;
+  /** Needs several tools in a row (search → menu → add to cart), run by the AgentLoop */
+  multiStep?: boolean;
   originalQuery: string;
 }
 
+/** A tool call the agent loop has made, and what came back */
+export interface AgentStep {
+  toolName: string;
+  arguments: Record<string, unknown>;
+  /** Tool output as text, trimmed to AGENT_RESULT_MAX_CHARS */
+  result: string;
+  failed: boolean;
+}
+
+/** What the model wants the agent loop to do next */
+export type AgentAction =
+  | { type: "call"; toolName: string; arguments: Record<string, unknown> }
+  /** The cart is ready and the user asked to order — hand over to the confirmation flow */
+  | { type: "checkout" }
+  | { type: "answer"; text: string };
+
 export interface ConversationTurn {
   role: "user" | "assistant";
   content: string;
@@ -2,3 +2,6 @@ export * from "./mcp.types.js";
 export * from "./gemini.types.js";
 export * from "./user.types.js";
 export * from "./telegram.types.js";
+export * from "./order.types.js";
+export * from "./dineout.types.js";
+export * from "./basket.types.js";
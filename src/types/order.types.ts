@@ -0,0 +1,173 @@
+import type { SwiggyService } from "./mcp.types.js";
+
+export interface CartLine {
+  /** Dish or product id, when the cart tool reports one */
+  id?: string;
+  name: string;
+  quantity: number;
+  price?: number;
+}
+
+export interface BillLine {
+  label: string;
+  amount: number;
+}
+
+/** Cart contents and bill as reported by Swiggy's cart tool */
+export interface CartSummary {
+  items: CartLine[];
+  bill: BillLine[];
+  /** Amount payable, or null if the server didn't report one */
+  total: number | null;
+  /** Food carts belong to a single restaurant */
+  restaurantId?: string;
+  restaurantName?: string;
+}
+
+export type CheckoutStatus =
+  | "awaiting_confirmation"
+  | "placing"
+  | "placed"
+  /** The checkout call failed in transit — the order may or may not exist */
+  | "unknown";
+
+export interface CheckoutSession {
+  /** Short nonce carried by the Confirm/Cancel buttons */
+  id: string;
+  userId: number;
+  service: SwiggyService;
+  /** Account profile the bill was reviewed on */
+  profile: string;
+  /** Delivery address the bill was reviewed for */
+  addressId?: string;
+  /** Shared location ("lat,lng") the bill was reviewed for, if not a saved address */
+  location?: string;
+  status: CheckoutStatus;
+  /** Fingerprint of the reviewed cart, compared again before placing */
+  cartFingerprint: string;
+  total: number | null;
+  orderId?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  price?: number;
+  isVeg?: boolean;
+  description?: string;
+  inStock: boolean;
+}
+
+export interface MenuCategory {
+  name: string;
+  items: MenuItem[];
+}
+
+/** A restaurant menu being browsed through inline keyboards */
+export interface MenuSession {
+  /** Short id carried by the menu's buttons, so stale keyboards are detectable */
+  id: string;
+  restaurantId: string;
+  restaurantName: string;
+  categories: MenuCategory[];
+  expiresAt: number;
+}
+
+/** A dish or product as it was when saved or ordered */
+export interface SavedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  /** Price of one unit at the time */
+  price?: number;
+}
+
+export type FavouriteKind = "item" | "restaurant";
+
+/** Something the user starred with a "⭐ Save" button */
+export interface Favourite {
+  /** Short id carried by /reorder buttons */
+  id: string;
+  service: SwiggyService;
+  kind: FavouriteKind;
+  /** Restaurant id, or the dish / product id for items */
+  targetId: string;
+  name: string;
+  /** Restaurant a saved dish belongs to */
+  restaurantId?: string;
+  price?: number;
+  savedAt: number;
+}
+
+export type FavouriteDraft = Omit<Favourite, "id" | "savedAt">;
+
+/** An order placed through the bot, kept so it can be reordered */
+export interface PastOrder {
+  /** Short id carried by /reorder buttons */
+  id: string;
+  service: SwiggyService;
+  orderId?: string;
+  restaurantId?: string;
+  restaurantName?: string;
+  items: SavedItem[];
+  total: number | null;
+  placedAt: number;
+}
+
+/** Per-user favourites and order history, persisted alongside the session */
+export interface ShoppingHistory {
+  telegramUserId: number;
+  favourites: Favourite[];
+  /** Newest first */
+  orders: PastOrder[];
+}
+
+export type OrderStage = "placed" | "preparing" | "out_for_delivery" | "delivered" | "cancelled";
+
+/** One reading of Swiggy's order-status tool */
+export interface OrderStatus {
+  /** Null when the status text didn't match a known stage */
+  stage: OrderStage | null;
+  /** Swiggy's own wording, shown as-is */
+  text?: string;
+  eta?: string;
+}
+
+/** A placed order whose status message is kept up to date in chat */
+export interface TrackedOrder {
+  id: string;
+  telegramUserId: number;
+  chatId: number;
+  service: SwiggyService;
+  /** Account profile the order was placed on */
+  profile: string;
+  orderId?: string;
+  /** The single status message that gets edited */
+  messageId: number;
+  stage: OrderStage;
+  statusText?: string;
+  eta?: string;
+  /** Polls so far, used to pick the next backoff delay */
+  polls: number;
+  nextPollAt: number;
+  startedAt: number;
+  /** Give up after this, whatever the stage */
+  stopAt: number;
+}
+
+/** What happened to each line when a past order or favourite was re-added */
+export interface ReorderReport {
+  added: SavedItem[];
+  /** No longer on the menu / in stock — not added */
+  unavailable: SavedItem[];
+  /** Added, but the unit price differs from last time */
+  priceChanges: Array<{ item: SavedItem; price: number }>;
+  /** Available, but the cart tool rejected them */
+  failed: SavedItem[];
+  /** Added without a check because their search failed */
+  unchecked: SavedItem[];
+  /** False when availability and prices couldn't be checked first */
+  checked: boolean;
+}
@@ -1,22 +1,48 @@
-export type CallbackAction =
-  | "select_restaurant"
-  | "select_item"
-  | "add_to_cart"
-  | "view_cart"
-  | "checkout"
-  | "confirm_order"
-  | "cancel"
-  | "next_page"
-  | "prev_page"
-  | "login_food"
-  | "login_instamart"
-  | "login_dineout"
-  | "book_slot";
+import type { SwiggyService } from "./mcp.types.js";
+import type { FavouriteDraft } from "./order.types.js";
+import type { SavedAddress } from "./user.types.js";
 
-export interface CallbackData {
-  action: CallbackAction;
-  service: string;
-  payload: string;
+/**
+ * Everything an inline button can ask the bot to do. Payloads are kept
+ * server-side by the CallbackRegistry; Telegram only sees a short token.
+ */
+export type CallbackData =
+  | { action: "login"; service: SwiggyService }
+  | { action: "select_restaurant"; service: SwiggyService; restaurantId: string; name?: string }
+  | { action: "select_item"; service: SwiggyService; itemId: string }
+  | { action: "menu_home"; menuId: string }
+  | { action: "menu_category"; menuId: string; categoryIdx: number }
+  | { action: "menu_dish"; menuId: string; categoryIdx: number; itemIdx: number; quantity: number }
+  | { action: "add_to_cart"; menuId: string; categoryIdx: number; itemIdx: number; quantity: number }
+  | { action: "view_cart"; service: SwiggyService }
+  | { action: "confirm_order"; service: SwiggyService; checkoutId: string }
+  | { action: "cancel_order"; service: SwiggyService; checkoutId: string }
+  | { action: "delete_data"; confirm: boolean }
+  | { action: "page"; resultsId: string; page: number }
+  | { action: "book_date"; wizardId: string; date: string }
+  | { action: "book_guests"; wizardId: string; guests: number }
+  | { action: "book_slot"; wizardId: string; slotIdx: number }
+  | { action: "book_back"; wizardId: string; step: "date" | "guests" | "slots" }
+  | { action: "book_confirm"; wizardId: string }
+  | { action: "book_cancel"; wizardId: string }
+  | { action: "basket_swap"; basketId: string; lineIdx: number }
+  | { action: "basket_toggle"; basketId: string; lineIdx: number }
+  | { action: "basket_add"; basketId: string }
+  | { action: "save_favourite"; favourite: FavouriteDraft }
+  | { action: "remove_favourite"; favouriteId: string }
+  | { action: "reorder"; orderId: string }
+  | { action: "reorder_favourite"; favouriteId: string }
+  | { action: "select_address"; service: SwiggyService; address: SavedAddress };
+
+export type CallbackAction = CallbackData["action"];
+
+/** Which page of a result set to render, and the stored set it belongs to */
+export interface ResultPageView {
+  page: number;
+  /** Set when the full result is kept in the ResultPageStore, enabling Previous/Next */
+  resultsId?: string;
+  /** Label of the delivery address the search ran against */
+  deliveringTo?: string;
 }
 
 export interface FormattedMessage {
@@ -6,18 +6,52 @@ export interface UserOAuthState {
   codeVerifier?: string;
   state?: string;
   authenticatedAt?: number;
+  /** Absolute access-token expiry (ms epoch), derived from expires_in */
+  expiresAt?: number;
+  /** client_id the tokens were issued to */
+  clientId?: string;
+}
+
+/** One linked Swiggy account (e.g. "home" vs "office") */
+export interface AccountProfile {
+  name: string;
+  oauthState: Partial<Record<SwiggyService, UserOAuthState>>;
+  /** Cached Swiggy addressId per service (needed by search tools) */
+  addressIds?: Partial<Record<SwiggyService, string>>;
+  /** Display label of each cached address ("Home", "Work") */
+  addressLabels?: Partial<Record<SwiggyService, string>>;
+  /** Shared Telegram location per service, used when no saved address is near it */
+  locations?: Partial<Record<SwiggyService, SharedLocation>>;
+  createdAt: number;
+}
+
+/** A delivery address saved in the user's Swiggy account */
+export interface SavedAddress {
+  id: string;
+  label: string;
+  /** Street address, when the tool returns one */
+  line?: string;
+  isDefault?: boolean;
+  lat?: number;
+  lng?: number;
+}
+
+/** A point shared from Telegram (pin, live location or venue) */
+export interface SharedLocation {
+  lat: number;
+  lng: number;
+  label: string;
 }
 
 export interface UserSession {
   telegramUserId: number;
   telegramChatId: number;
   username?: string;
-  oauthState: Partial<Record<SwiggyService, UserOAuthState>>;
+  profiles: Record<string, AccountProfile>;
+  activeProfile: string;
   isAuthenticating: boolean;
   pendingAuthService?: SwiggyService;
   pendingAuthUrl?: string;
-  /** Cached Swiggy addressId per service (needed by search tools) */
-  addressIds?: Partial<Record<SwiggyService, string>>;
   createdAt: number;
   lastActiveAt: number;
 }
@@ -26,6 +60,8 @@ export interface PendingOAuthFlow {
   telegramUserId: number;
   chatId: number;
   service: SwiggyService;
+  /** Account profile the resulting tokens belong to */
+  profile?: string;
   codeVerifier: string;
   state: string;
   createdAt: number;
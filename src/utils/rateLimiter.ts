@@ -24,4 +24,8 @@ export class RateLimiter {
     this.requests.set(userId, valid);
     return false;
   }
+
+  reset(userId: number): void {
+    this.requests.delete(userId);
+  }
 }